@@ -0,0 +1,25 @@
+-- Run once on databases created before roles were stored in the Role table, BEFORE `npm run db:push`.
+-- User.role gets a foreign key to Role.name, so the roles existing users hold must exist first.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS `Role` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(50) NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `permissions` JSON NOT NULL,
+    `isSystem` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Role_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Same rows PermissionService.ensureSystemRoles creates, ADMIN is granted every permission at runtime anyway
+INSERT IGNORE INTO `Role` (`name`, `description`, `permissions`, `isSystem`, `updatedAt`) VALUES
+    ('ADMIN', 'Full access', JSON_ARRAY(
+        'users:read', 'users:export', 'users:create', 'users:update', 'users:delete', 'users:purge',
+        'users:impersonate', 'users:unlock', 'users:status', 'users:sessions', 'roles:manage',
+        'posts:create', 'posts:update', 'posts:delete', 'posts:publish', 'categories:manage', 'tags:manage'
+    ), true, CURRENT_TIMESTAMP(3)),
+    ('USER', 'Default role for new accounts', JSON_ARRAY('posts:create'), true, CURRENT_TIMESTAMP(3));
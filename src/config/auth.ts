@@ -0,0 +1,117 @@
+import dotenv from 'dotenv';
+
+// Make sure env is loaded even when this module is imported before index.ts calls dotenv
+dotenv.config();
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// off: verification is tracked but never enforced
+// routes: routes using the requireVerifiedEmail preHandler reject unverified users
+// login: unverified users cannot log in at all (implies routes)
+export type EmailVerificationPolicy = 'off' | 'routes' | 'login';
+
+// Parses the subset of vercel/ms durations we document ("900", "30s", "15m", "1h", "7d")
+const toSeconds = (value: string) => {
+  const match = /^(\d+)\s*(s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    return NaN;
+  }
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  return Number(match[1]) * units[match[2] || 's'];
+};
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'EdDSA'];
+
+const toEmailVerificationPolicy = (value: string | undefined): EmailVerificationPolicy =>
+  value === 'routes' || value === 'login' ? value : 'off';
+
+const toDate = (value: string | undefined) => {
+  const parsed = value ? new Date(value) : null;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed : null;
+};
+
+export const authConfig = {
+  // Lifetime of JWT access tokens (vercel/ms format, e.g. "15m", "1h")
+  accessTokenExpiresIn: process.env.JWT_ACCESS_TOKEN_EXPIRES_IN || '15m',
+  // Lifetime of refresh tokens in days
+  refreshTokenExpiresInDays: toNumber(process.env.JWT_REFRESH_TOKEN_EXPIRES_IN_DAYS, 30),
+  // How long a revocation lookup result is reused before hitting the database again
+  revocationCacheTtlSeconds: toNumber(process.env.TOKEN_REVOCATION_CACHE_TTL_SECONDS, 30),
+  // Lifetime of admin impersonation tokens in minutes, they cannot be refreshed
+  impersonationExpiresInMinutes: toNumber(process.env.IMPERSONATION_EXPIRES_IN_MINUTES, 15),
+  // Lifetime of password reset links in minutes
+  passwordResetExpiresInMinutes: toNumber(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES, 60),
+  // Lifetime of invitation links in hours
+  invitationExpiresInHours: toNumber(process.env.INVITATION_EXPIRES_IN_HOURS, 72),
+  // Lifetime of email verification links in hours
+  emailVerificationExpiresInHours: toNumber(process.env.EMAIL_VERIFICATION_EXPIRES_IN_HOURS, 24),
+  emailVerificationPolicy: toEmailVerificationPolicy(process.env.EMAIL_VERIFICATION_POLICY),
+  // Accounts created before this date count as verified, so enabling the policy does not lock them out
+  emailVerificationRequiredSince: toDate(process.env.EMAIL_VERIFICATION_REQUIRED_SINCE),
+  // Lifetime of the confirm and cancel links sent when a user changes their email address
+  emailChangeExpiresInHours: toNumber(process.env.EMAIL_CHANGE_EXPIRES_IN_HOURS, 24),
+  signing: {
+    // Asymmetric algorithm used for newly generated signing keys
+    algorithm: (process.env.JWT_ALGORITHM || 'RS256') as JwtAlgorithm,
+    // Encrypts private keys at rest in the SigningKey table
+    keyPassphrase: process.env.JWT_KEY_PASSPHRASE || '',
+    // A new signing key is generated once the active one is this old
+    rotationDays: toNumber(process.env.JWT_KEY_ROTATION_DAYS, 30),
+    // How often instances pick up keys generated elsewhere and check for rotation
+    refreshIntervalMinutes: toNumber(process.env.JWT_KEY_REFRESH_INTERVAL_MINUTES, 5),
+  },
+  magicLink: {
+    // Minutes a sign-in link stays valid
+    expiresInMinutes: toNumber(process.env.MAGIC_LINK_EXPIRES_IN_MINUTES, 15),
+    // Links that can be requested for one email address within the window
+    maxRequestsPerEmail: toNumber(process.env.MAGIC_LINK_MAX_REQUESTS_PER_EMAIL, 3),
+    requestWindowMinutes: toNumber(process.env.MAGIC_LINK_REQUEST_WINDOW_MINUTES, 15),
+  },
+  twoFactor: {
+    // Shown as the account issuer in authenticator apps
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Fastify API',
+    // Seconds a login challenge can be exchanged for tokens
+    challengeExpiresInSeconds: toNumber(process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN_SECONDS, 300),
+    recoveryCodeCount: toNumber(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT, 10),
+    // Admin routes reject sessions that did not pass two-factor authentication
+    requiredForAdmins: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === 'true',
+  },
+  loginThrottle: {
+    // memory (single instance) | database (shared between instances)
+    store: process.env.LOGIN_ATTEMPT_STORE === 'database' ? 'database' : 'memory',
+    maxAttemptsPerAccount: toNumber(process.env.LOGIN_MAX_ATTEMPTS_PER_ACCOUNT, 5),
+    maxAttemptsPerIp: toNumber(process.env.LOGIN_MAX_ATTEMPTS_PER_IP, 20),
+    // Failures older than the window are forgotten
+    attemptWindowMinutes: toNumber(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES, 15),
+    lockoutMinutes: toNumber(process.env.LOGIN_LOCKOUT_MINUTES, 15),
+    // Delay doubles with every failure, starting at the base and capped at the max
+    baseDelayMs: toNumber(process.env.LOGIN_DELAY_BASE_MS, 250),
+    maxDelayMs: toNumber(process.env.LOGIN_DELAY_MAX_MS, 5000),
+  },
+};
+
+export const getAccessTokenLifetimeSeconds = () => toSeconds(authConfig.accessTokenExpiresIn);
+
+// Longest lifetime of a JWT we sign, old keys keep verifying for at least this long
+export const getMaxTokenLifetimeSeconds = () =>
+  Math.max(getAccessTokenLifetimeSeconds(), authConfig.impersonationExpiresInMinutes * 60);
+
+// Refuse to start with settings that would make tokens forgeable or unverifiable
+export const assertSigningConfig = () => {
+  if (!JWT_ALGORITHMS.includes(authConfig.signing.algorithm)) {
+    throw new Error(`JWT_ALGORITHM must be one of ${JWT_ALGORITHMS.join(', ')}`);
+  }
+  if (authConfig.signing.keyPassphrase.length < 32) {
+    throw new Error('JWT_KEY_PASSPHRASE must be set to a random value of at least 32 characters');
+  }
+  if (!Number.isFinite(getAccessTokenLifetimeSeconds())) {
+    throw new Error('JWT_ACCESS_TOKEN_EXPIRES_IN must look like "900", "30s", "15m", "1h" or "7d"');
+  }
+};
+
+export default authConfig;
@@ -0,0 +1,14 @@
+import dotenv from 'dotenv';
+
+// Make sure env is loaded even when this module is imported before index.ts calls dotenv
+dotenv.config();
+
+export const mailConfig = {
+  // console | file
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'no-reply@localhost',
+  // Base URL used to build links in emails (frontend or this API)
+  appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, ''),
+};
+
+export default mailConfig;
@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+import mailConfig from './mail';
+import { logWarning } from '../utils/logger';
+
+// Make sure env is loaded even when this module is imported before index.ts calls dotenv
+dotenv.config();
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  redirectUri: string;
+}
+
+// OIDC_PROVIDERS=google,mock reads OIDC_GOOGLE_ISSUER, OIDC_GOOGLE_CLIENT_ID, ...
+const loadProviders = () => {
+  const names = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.reduce((providers, name) => {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+
+    if (!issuer || !clientId) {
+      logWarning('OIDC provider is missing its issuer or client id, skipping', {
+        provider: name,
+        required: [`${prefix}ISSUER`, `${prefix}CLIENT_ID`],
+      });
+      return providers;
+    }
+
+    providers[name] = {
+      name,
+      issuer: issuer.replace(/\/$/, ''),
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+      scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+      redirectUri:
+        process.env[`${prefix}REDIRECT_URI`] ||
+        `${mailConfig.appUrl}/api/auth/oidc/${name}/callback`,
+    };
+    return providers;
+  }, {} as Record<string, OidcProviderConfig>);
+};
+
+export const oidcConfig = {
+  providers: loadProviders(),
+  // Minutes a started login/link flow stays valid
+  authRequestExpiresInMinutes: 10,
+};
+
+export default oidcConfig;
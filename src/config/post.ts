@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+
+// Make sure env is loaded even when this module is imported before index.ts calls dotenv
+dotenv.config();
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const postConfig = {
+  // How often scheduled posts whose publishedAt has passed are published
+  schedulerIntervalSeconds: toNumber(process.env.POST_SCHEDULER_INTERVAL_SECONDS, 60),
+};
+
+export default postConfig;
@@ -0,0 +1,30 @@
+import dotenv from 'dotenv';
+
+// Make sure env is loaded even when this module is imported before index.ts calls dotenv
+dotenv.config();
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const userConfig = {
+  // Soft-deleted users can be restored for this many days, then they are purged
+  deletedRetentionDays: toNumber(process.env.USER_DELETED_RETENTION_DAYS, 30),
+  // How often the retention job looks for users to purge
+  retentionIntervalMinutes: toNumber(process.env.USER_RETENTION_INTERVAL_MINUTES, 60),
+  // How often timed suspensions that have run out are lifted
+  suspensionCheckIntervalMinutes: toNumber(process.env.USER_SUSPENSION_CHECK_INTERVAL_MINUTES, 5),
+  // Days between a user deleting their own account and its erasure, the deletion can be cancelled until then
+  erasureGraceDays: toNumber(process.env.ACCOUNT_ERASURE_GRACE_DAYS, 14),
+  // Users read from the database per query while streaming an export
+  exportBatchSize: toNumber(process.env.USER_EXPORT_BATCH_SIZE, 500),
+  import: {
+    // Rows accepted in one import file
+    maxRows: toNumber(process.env.USER_IMPORT_MAX_ROWS, 1000),
+    // Rows written per database transaction
+    batchSize: toNumber(process.env.USER_IMPORT_BATCH_SIZE, 100),
+  },
+};
+
+export default userConfig;
@@ -0,0 +1,82 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ApiKeyService } from '../services/apiKeyService';
+import { logError, logInfo } from '../utils/logger';
+import { createApiKeySchema, CreateApiKeyInput } from '../validations/apiKeyValidation';
+import { z } from 'zod';
+
+const apiKeyService = new ApiKeyService();
+
+export class ApiKeyController {
+  static async createApiKey(
+    request: FastifyRequest<{ Body: CreateApiKeyInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      // Validate request body
+      const validatedData = createApiKeySchema.parse(request.body);
+
+      logInfo(`Creating API key for user ID: ${userId}`, { name: validatedData.name });
+      const result = await apiKeyService.createApiKey(userId, validatedData);
+
+      reply.status(201).send(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error creating API key', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid input data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create API key';
+      logError(`Error creating API key for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async listApiKeys(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      return await apiKeyService.listApiKeys(userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error fetching API keys for user ID ${userId}`, error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async revokeApiKey(
+    request: FastifyRequest<{ Params: { keyId: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    const apiKeyId = parseInt(request.params.keyId);
+    try {
+      const result = await apiKeyService.revokeApiKey(userId, apiKeyId);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error revoking API key ${apiKeyId} for user ID ${userId}`, error);
+      reply.status(404).send({
+        error: 'API key not found',
+        message: errorMessage
+      });
+    }
+  }
+}
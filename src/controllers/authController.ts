@@ -1,13 +1,71 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { UserService } from '../services/userService';
-import { logError, logInfo } from '../utils/logger';
-import { loginSchema, registerSchema, LoginInput, RegisterInput } from '../validations/authValidation';
+import { TokenService } from '../services/tokenService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { PrivacyService } from '../services/privacyService';
+import { InvitationService } from '../services/invitationService';
+import authConfig from '../config/auth';
+import { AccountStatusError, AppError, TooManyAttemptsError } from '../utils/errors';
+import { getClientInfo, logError, logInfo } from '../utils/logger';
+import {
+  loginSchema,
+  registerSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  LoginInput,
+  RegisterInput,
+  RefreshTokenInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  VerifyEmailInput,
+  ResendVerificationInput,
+  loginTwoFactorSchema,
+  LoginTwoFactorInput,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  MagicLinkInput,
+  VerifyMagicLinkInput,
+  cancelErasureSchema,
+  CancelErasureInput,
+  acceptInviteSchema,
+  AcceptInviteInput,
+  confirmEmailChangeSchema,
+  ConfirmEmailChangeInput,
+  cancelEmailChangeSchema,
+  CancelEmailChangeInput,
+} from '../validations/authValidation';
 import { z } from 'zod';
 import { MultipartFile } from '@fastify/multipart';
 
 const userService = new UserService();
+const tokenService = new TokenService();
+const twoFactorService = new TwoFactorService();
+const privacyService = new PrivacyService();
+const invitationService = new InvitationService();
+
+type LoginUser = Awaited<ReturnType<UserService['loginUser']>>;
 
 export class AuthController {
+  // First factor passed: issue tokens, or a 2FA challenge for accounts that have it enabled
+  private static async completeLogin(request: FastifyRequest, fastify: any, user: LoginUser) {
+    if (user.twoFactorEnabledAt) {
+      logInfo('Login requires two-factor authentication', { userId: user.id });
+      return twoFactorService.createLoginChallenge(user.id);
+    }
+
+    const tokens = await tokenService.issueAuthTokens(fastify, user, getClientInfo(request));
+
+    logInfo('Login successful', { userId: user.id, email: user.email });
+
+    return {
+      ...tokens,
+      user,
+    };
+  }
+
   static async login(
     request: FastifyRequest<{ Body: LoginInput }>,
     reply: FastifyReply,
@@ -18,19 +76,78 @@ export class AuthController {
       const validatedData = loginSchema.parse(request.body);
       
       logInfo('Login attempt', { email: validatedData.email });
-      const user = await userService.loginUser(validatedData);
+      const user = await userService.loginUser(validatedData, request.ip);
 
-      const token = fastify.jwt.sign({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
+      return await AuthController.completeLogin(request, fastify, user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+        
+        logError('Validation error during login', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid login data',
+          details: errorDetails
+        });
+      }
+      
+      if (error instanceof TooManyAttemptsError) {
+        logError('Login blocked by lockout', error, { email: request.body?.email, ip: request.ip });
+        return reply
+          .header('Retry-After', String(error.retryAfterSeconds))
+          .status(429)
+          .send({
+            error: 'Too Many Requests',
+            message: error.message,
+            code: error.code,
+          });
+      }
+
+      if (error instanceof AccountStatusError) {
+        logError('Login refused by account status', error, { email: request.body?.email, code: error.code });
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: error.message,
+          code: error.code,
+          reason: error.reason,
+          suspendedUntil: error.suspendedUntil,
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Login failed', error, { email: request.body?.email });
+
+      reply.status(401).send({
+        error: 'Authentication failed',
+        message: errorMessage,
       });
+    }
+  }
+
+  static async loginTwoFactor(
+    request: FastifyRequest<{ Body: LoginTwoFactorInput }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    try {
+      // Validate request body
+      const validatedData = loginTwoFactorSchema.parse(request.body);
+
+      const user = await twoFactorService.completeLoginChallenge(
+        validatedData.challengeToken,
+        validatedData.code,
+        request.ip
+      );
+
+      const tokens = await tokenService.issueAuthTokens(fastify, user, getClientInfo(request));
 
-      logInfo('Login successful', { userId: user.id, email: user.email });
+      logInfo('Two-factor login successful', { userId: user.id, email: user.email });
 
       return {
-        token,
+        ...tokens,
         user,
       };
     } catch (error) {
@@ -39,17 +156,29 @@ export class AuthController {
           field: err.path.join('.'),
           message: err.message
         }));
-        
-        logError('Validation error during login', error);
+
+        logError('Validation error during two-factor login', error);
         return reply.status(400).send({
           error: 'Validation Error',
           message: 'Invalid login data',
           details: errorDetails
         });
       }
-      
+
+      if (error instanceof TooManyAttemptsError) {
+        logError('Two-factor login blocked by lockout', error, { ip: request.ip });
+        return reply
+          .header('Retry-After', String(error.retryAfterSeconds))
+          .status(429)
+          .send({
+            error: 'Too Many Requests',
+            message: error.message,
+            code: error.code,
+          });
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logError('Login failed', error, { email: request.body?.email });
+      logError('Two-factor login failed', error);
 
       reply.status(401).send({
         error: 'Authentication failed',
@@ -153,20 +282,30 @@ export class AuthController {
         user.avatar = updatedAvatarUrl;
       }
 
-      const token = fastify.jwt.sign({
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      });
+      // A failed email must not fail the registration, the user can ask for a resend
+      try {
+        await userService.sendVerificationEmail(user.id);
+      } catch (mailError) {
+        logError('Failed to send verification email', mailError, { userId: user.id });
+      }
 
       logInfo('Registration successful', {
         userId: user.id,
         email: user.email,
       });
 
+      // No session until the address is confirmed when login requires verification
+      if (authConfig.emailVerificationPolicy === 'login') {
+        return reply.status(201).send({
+          user,
+          message: 'Registration successful, please verify your email address before logging in',
+        });
+      }
+
+      const tokens = await tokenService.issueAuthTokens(fastify, user, getClientInfo(request));
+
       reply.status(201).send({
-        token,
+        ...tokens,
         user,
       });
     } catch (error) {
@@ -197,6 +336,503 @@ export class AuthController {
       });
     }
   }
+
+  static async refresh(
+    request: FastifyRequest<{ Body: RefreshTokenInput }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    try {
+      // Validate request body
+      const validatedData = refreshTokenSchema.parse(request.body);
+
+      const result = await tokenService.rotateRefreshToken(
+        fastify,
+        validatedData.refreshToken,
+        getClientInfo(request)
+      );
+
+      logInfo('Token refresh successful', { userId: result.user.id });
+
+      return result;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during token refresh', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid refresh data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Token refresh failed', error);
+
+      reply.status(401).send({
+        error: 'Authentication failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async logout(
+    request: FastifyRequest<{ Body: RefreshTokenInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = refreshTokenSchema.parse(request.body);
+
+      const { userId } = await tokenService.revokeRefreshToken(validatedData.refreshToken);
+
+      logInfo('Logout successful', { userId });
+
+      return {
+        success: true,
+        message: 'Logged out successfully',
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during logout', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid logout data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Logout failed', error);
+
+      reply.status(401).send({
+        error: 'Authentication failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async forgotPassword(
+    request: FastifyRequest<{ Body: ForgotPasswordInput }>,
+    reply: FastifyReply
+  ) {
+    // Same response whether or not the account exists
+    const genericResponse = {
+      success: true,
+      message: 'If an account with that email exists, a password reset link has been sent',
+    };
+
+    try {
+      // Validate request body
+      const validatedData = forgotPasswordSchema.parse(request.body);
+
+      logInfo('Password reset requested', { email: validatedData.email });
+      await userService.requestPasswordReset(validatedData.email);
+
+      return genericResponse;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during password reset request', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid password reset data',
+          details: errorDetails
+        });
+      }
+
+      logError('Password reset request failed', error, { email: request.body?.email });
+      return genericResponse;
+    }
+  }
+
+  static async requestMagicLink(
+    request: FastifyRequest<{ Body: MagicLinkInput }>,
+    reply: FastifyReply
+  ) {
+    // Same response whether or not the account exists
+    const genericResponse = {
+      success: true,
+      message: 'If an account with that email exists, a sign-in link has been sent',
+    };
+
+    try {
+      // Validate request body
+      const validatedData = magicLinkSchema.parse(request.body);
+
+      logInfo('Magic link requested', { email: validatedData.email });
+      await userService.requestMagicLink(validatedData.email);
+
+      return genericResponse;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during magic link request', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid magic link data',
+          details: errorDetails
+        });
+      }
+
+      if (error instanceof TooManyAttemptsError) {
+        return reply
+          .header('Retry-After', String(error.retryAfterSeconds))
+          .status(429)
+          .send({
+            error: 'Too Many Requests',
+            message: error.message,
+            code: error.code,
+          });
+      }
+
+      logError('Magic link request failed', error, { email: request.body?.email });
+      return genericResponse;
+    }
+  }
+
+  static async verifyMagicLink(
+    request: FastifyRequest<{ Body: VerifyMagicLinkInput }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    try {
+      // Validate request body
+      const validatedData = verifyMagicLinkSchema.parse(request.body);
+
+      const user = await userService.loginWithMagicLink(validatedData.token);
+
+      return await AuthController.completeLogin(request, fastify, user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during magic link login', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid magic link data',
+          details: errorDetails
+        });
+      }
+
+      if (error instanceof AccountStatusError) {
+        logError('Magic link login refused by account status', error, { code: error.code });
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: error.message,
+          code: error.code,
+          reason: error.reason,
+          suspendedUntil: error.suspendedUntil,
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Magic link login failed', error);
+
+      reply.status(401).send({
+        error: 'Authentication failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async resetPassword(
+    request: FastifyRequest<{ Body: ResetPasswordInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = resetPasswordSchema.parse(request.body);
+
+      const result = await userService.resetPassword(validatedData.token, validatedData.password);
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during password reset', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid password reset data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reset password';
+      logError('Password reset failed', error);
+
+      reply.status(400).send({
+        error: 'Password reset failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async verifyEmail(
+    request: FastifyRequest<{ Querystring: VerifyEmailInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate query string
+      const validatedData = verifyEmailSchema.parse(request.query);
+
+      const user = await userService.verifyEmail(validatedData.token);
+
+      return {
+        success: true,
+        message: 'Email address verified successfully',
+        user,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during email verification', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid verification data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to verify email';
+      logError('Email verification failed', error);
+
+      reply.status(400).send({
+        error: 'Email verification failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Invitee sets name and password from the emailed link and is signed in right away
+  static async acceptInvite(
+    request: FastifyRequest<{ Body: AcceptInviteInput }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    try {
+      // Validate request body
+      const validatedData = acceptInviteSchema.parse(request.body);
+
+      const user = await invitationService.acceptInvitation(
+        validatedData.token,
+        validatedData.name,
+        validatedData.password
+      );
+
+      return await AuthController.completeLogin(request, fastify, user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while accepting invitation', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid invitation data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to accept invitation';
+      logError('Accepting invitation failed', error);
+
+      reply.status(400).send({
+        error: 'Invitation failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Keeps an account whose owner asked for its deletion, from the link in the confirmation email
+  static async cancelErasure(
+    request: FastifyRequest<{ Body: CancelErasureInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = cancelErasureSchema.parse(request.body);
+
+      const result = await privacyService.cancelErasure(validatedData.token);
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while cancelling account deletion', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid cancellation data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to cancel account deletion';
+      logError('Cancelling account deletion failed', error);
+
+      reply.status(400).send({
+        error: 'Cancellation failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Applies a requested email change from the link sent to the new address
+  static async confirmEmailChange(
+    request: FastifyRequest<{ Body: ConfirmEmailChangeInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = confirmEmailChangeSchema.parse(request.body);
+
+      await userService.confirmEmailChange(validatedData.token);
+
+      return {
+        success: true,
+        message: 'Email address changed, please sign in again',
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while confirming email change', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid confirmation data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change email address';
+      logError('Confirming email change failed', error);
+
+      reply.status(error instanceof AppError ? error.statusCode : 400).send({
+        error: 'Email change failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  // Drops a requested email change from the link sent to the current address
+  static async cancelEmailChange(
+    request: FastifyRequest<{ Body: CancelEmailChangeInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = cancelEmailChangeSchema.parse(request.body);
+
+      const result = await userService.cancelEmailChange(validatedData.token);
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while cancelling email change', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid cancellation data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to cancel email change';
+      logError('Cancelling email change failed', error);
+
+      reply.status(400).send({
+        error: 'Cancellation failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async resendVerification(
+    request: FastifyRequest<{ Body: ResendVerificationInput }>,
+    reply: FastifyReply
+  ) {
+    // Same response whether or not the account exists or is already verified
+    const genericResponse = {
+      success: true,
+      message: 'If an unverified account with that email exists, a verification link has been sent',
+    };
+
+    try {
+      // Validate request body
+      const validatedData = resendVerificationSchema.parse(request.body);
+
+      await userService.resendVerificationEmail(validatedData.email);
+
+      return genericResponse;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during verification resend', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid verification data',
+          details: errorDetails
+        });
+      }
+
+      logError('Verification resend failed', error, { email: request.body?.email });
+      return genericResponse;
+    }
+  }
 }
 
 export const authController = new AuthController();
@@ -0,0 +1,135 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CategoryService } from '../services/categoryService';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  deleteCategoryQuerySchema,
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  DeleteCategoryQuery,
+} from '../validations/categoryValidation';
+import { z } from 'zod';
+
+const categoryService = new CategoryService();
+
+const sendValidationError = (reply: FastifyReply, error: z.ZodError) => {
+  const errorDetails = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+  return reply.status(400).send({
+    error: 'Validation Error',
+    message: 'Invalid input data',
+    details: errorDetails
+  });
+};
+
+const sendAppError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  const statusCode = error instanceof AppError ? error.statusCode : 400;
+  const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+  return reply.status(statusCode).send({
+    error: statusCode === 404 ? 'Category not found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+    message: errorMessage
+  });
+};
+
+export class CategoryController {
+  static async getCategories(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      return await categoryService.listCategories();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error fetching categories', error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async getCategoryById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const categoryId = parseInt(request.params.id);
+    try {
+      return await categoryService.getCategoryById(categoryId);
+    } catch (error) {
+      logError(`Error fetching category ID ${categoryId}`, error);
+      return sendAppError(reply, error, 'Failed to fetch category');
+    }
+  }
+
+  static async createCategory(
+    request: FastifyRequest<{ Body: CreateCategoryInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = createCategorySchema.parse(request.body);
+
+      logInfo(`Creating category ${validatedData.name}`, { adminId: request.user!.id });
+      const category = await categoryService.createCategory(validatedData);
+
+      reply.status(201).send(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error creating category', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError('Error creating category', error);
+      return sendAppError(reply, error, 'Failed to create category');
+    }
+  }
+
+  static async updateCategory(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateCategoryInput }>,
+    reply: FastifyReply
+  ) {
+    const categoryId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const validatedData = updateCategorySchema.parse(request.body);
+
+      logInfo(`Updating category ID: ${categoryId}`, { adminId: request.user!.id, updates: validatedData });
+      return await categoryService.updateCategory(categoryId, validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error updating category', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error updating category ID ${categoryId}`, error);
+      return sendAppError(reply, error, 'Failed to update category');
+    }
+  }
+
+  static async deleteCategory(
+    request: FastifyRequest<{ Params: { id: string }; Querystring: DeleteCategoryQuery }>,
+    reply: FastifyReply
+  ) {
+    const categoryId = parseInt(request.params.id);
+    try {
+      const { reassignTo } = deleteCategoryQuerySchema.parse(request.query);
+
+      logInfo(`Deleting category ID: ${categoryId}`, { adminId: request.user!.id, reassignTo });
+      const result = await categoryService.deleteCategory(categoryId, reassignTo);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error deleting category', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error deleting category ID ${categoryId}`, error);
+      return sendAppError(reply, error, 'Failed to delete category');
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { OidcService } from '../services/oidcService';
+import { TokenService } from '../services/tokenService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { AccountStatusError } from '../utils/errors';
+import { getClientInfo, logError, logInfo } from '../utils/logger';
+import { oidcCallbackSchema, OidcCallbackInput } from '../validations/authValidation';
+import { z } from 'zod';
+
+const oidcService = new OidcService();
+const tokenService = new TokenService();
+const twoFactorService = new TwoFactorService();
+
+export class OidcController {
+  static async getProviders() {
+    return { providers: oidcService.listProviders() };
+  }
+
+  static async authorize(
+    request: FastifyRequest<{ Params: { provider: string } }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const { authorizationUrl } = await oidcService.createAuthorizationUrl(request.params.provider);
+      return { authorizationUrl };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error starting OIDC login', error, { provider: request.params.provider });
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async callback(
+    request: FastifyRequest<{ Params: { provider: string }; Querystring: OidcCallbackInput }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    try {
+      // Validate query string
+      const validatedData = oidcCallbackSchema.parse(request.query);
+
+      const result = await oidcService.handleCallback(
+        request.params.provider,
+        validatedData.code,
+        validatedData.state
+      );
+
+      if (result.mode === 'link') {
+        return {
+          success: true,
+          message: `Identity provider ${result.provider} linked successfully`
+        };
+      }
+
+      const { user } = result;
+
+      // A provider login does not replace the second factor
+      if (user.twoFactorEnabledAt) {
+        logInfo('OIDC login requires two-factor authentication', { userId: user.id });
+        return twoFactorService.createLoginChallenge(user.id);
+      }
+
+      const tokens = await tokenService.issueAuthTokens(fastify, user, getClientInfo(request));
+
+      logInfo('OIDC login successful', { userId: user.id, provider: request.params.provider });
+
+      return {
+        ...tokens,
+        user,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error during OIDC callback', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid callback parameters',
+          details: errorDetails
+        });
+      }
+
+      if (error instanceof AccountStatusError) {
+        logError('OIDC login refused by account status', error, { provider: request.params.provider, code: error.code });
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: error.message,
+          code: error.code,
+          reason: error.reason,
+          suspendedUntil: error.suspendedUntil,
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('OIDC login failed', error, { provider: request.params.provider });
+
+      reply.status(401).send({
+        error: 'Authentication failed',
+        message: errorMessage,
+      });
+    }
+  }
+
+  static async getMyIdentities(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      return await oidcService.listIdentities(userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error fetching identities for user ID ${userId}`, error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async linkIdentity(
+    request: FastifyRequest<{ Params: { provider: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      logInfo(`Starting ${request.params.provider} link for user ID: ${userId}`);
+      const { authorizationUrl } = await oidcService.createAuthorizationUrl(request.params.provider, userId);
+      return { authorizationUrl };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error linking identity for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async unlinkIdentity(
+    request: FastifyRequest<{ Params: { provider: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      const result = await oidcService.unlinkIdentity(userId, request.params.provider);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error unlinking identity for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+}
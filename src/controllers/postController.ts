@@ -0,0 +1,343 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PostService } from '../services/postService';
+import { PermissionService } from '../services/permissionService';
+import { TagService } from '../services/tagService';
+import { PostWorkflowService } from '../services/postWorkflowService';
+import { PostStatus } from '../types/post';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import {
+  createPostSchema,
+  updatePostSchema,
+  listPostsQuerySchema,
+  postTransitionSchema,
+  CreatePostInput,
+  UpdatePostInput,
+  ListPostsQuery,
+  PostTransitionInput,
+} from '../validations/postValidation';
+import { postTagsSchema, PostTagsInput } from '../validations/tagValidation';
+import { z } from 'zod';
+
+const postService = new PostService();
+const permissionService = new PermissionService();
+const tagService = new TagService();
+const postWorkflowService = new PostWorkflowService();
+
+type PostDetails = Awaited<ReturnType<PostService['getPostById']>>;
+
+const sendValidationError = (reply: FastifyReply, error: z.ZodError) => {
+  const errorDetails = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+  return reply.status(400).send({
+    error: 'Validation Error',
+    message: 'Invalid input data',
+    details: errorDetails
+  });
+};
+
+const sendAppError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  const statusCode = error instanceof AppError ? error.statusCode : 400;
+  const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+  return reply.status(statusCode).send({
+    error: statusCode === 404 ? 'Post not found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+    message: errorMessage,
+    ...(error instanceof AppError && { code: error.code })
+  });
+};
+
+const sendForbidden = (reply: FastifyReply, permission: string) =>
+  reply.status(403).send({
+    error: 'Forbidden',
+    message: `Missing required permission: ${permission}`
+  });
+
+export class PostController {
+  static async getPosts(
+    request: FastifyRequest<{ Querystring: ListPostsQuery }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const options = listPostsQuerySchema.parse(request.query);
+      const canSeeAll = await permissionService.hasPermission(request.user!, 'posts:update');
+      const result = await postService.listPosts(options, { id: request.user!.id, canSeeAll });
+
+      // Links keep the caller's filters and sort, only the page changes
+      const path = request.url.split('?')[0];
+      const link = (page: number) => {
+        const query = new URLSearchParams(request.query as Record<string, string>);
+        query.set('page', String(page));
+        return `${path}?${query.toString()}`;
+      };
+      const totalPages = Math.ceil(result.total / options.pageSize);
+
+      return {
+        data: result.data,
+        meta: {
+          total: result.total,
+          page: options.page,
+          pageSize: options.pageSize,
+          totalPages,
+        },
+        links: {
+          self: request.url,
+          next: options.page < totalPages ? link(options.page + 1) : null,
+          prev: options.page > 1 ? link(options.page - 1) : null,
+        },
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error while listing posts', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError('Error fetching posts', error);
+      return sendAppError(reply, error, 'Failed to fetch posts');
+    }
+  }
+
+  static async getPostById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      const post = await postService.getPostById(postId);
+      return await PostController.viewPost(request, reply, post);
+    } catch (error) {
+      logError(`Error fetching post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to fetch post');
+    }
+  }
+
+  static async getPostBySlug(
+    request: FastifyRequest<{ Params: { slug: string } }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const post = await postService.getPostBySlug(request.params.slug);
+      return await PostController.viewPost(request, reply, post);
+    } catch (error) {
+      logError(`Error fetching post ${request.params.slug}`, error);
+      return sendAppError(reply, error, 'Failed to fetch post');
+    }
+  }
+
+  // Unpublished posts look missing to anyone but their author and editors, views of others are counted
+  private static async viewPost(request: FastifyRequest, reply: FastifyReply, post: PostDetails) {
+    const isAuthor = post.authorId === request.user!.id;
+
+    if (
+      post.status !== PostStatus.PUBLISHED &&
+      !(await permissionService.can(request.user!, 'posts:update', post.authorId ?? undefined))
+    ) {
+      return reply.status(404).send({
+        error: 'Post not found',
+        message: 'Post not found'
+      });
+    }
+
+    if (post.status === PostStatus.PUBLISHED && !isAuthor) {
+      await postService.recordView(post.id);
+      return { ...post, views: post.views + 1 };
+    }
+
+    return post;
+  }
+
+  static async createPost(
+    request: FastifyRequest<{ Body: CreatePostInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = createPostSchema.parse(request.body);
+
+      logInfo('Creating post', { authorId: request.user!.id, title: validatedData.title });
+      const post = await postService.createPost(validatedData, request.user!.id);
+
+      reply.status(201).send(post);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error creating post', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError('Error creating post', error);
+      return sendAppError(reply, error, 'Failed to create post');
+    }
+  }
+
+  // Authors edit their own posts, everyone else needs posts:update. Published and scheduled posts
+  // already passed review, changing them also needs posts:publish
+  static async updatePost(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdatePostInput }>,
+    reply: FastifyReply
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const validatedData = updatePostSchema.parse(request.body);
+
+      const post = await postService.getPostById(postId);
+
+      if (!(await permissionService.can(request.user!, 'posts:update', post.authorId ?? undefined))) {
+        return sendForbidden(reply, 'posts:update');
+      }
+
+      if (
+        (post.status === PostStatus.PUBLISHED || post.status === PostStatus.SCHEDULED) &&
+        !(await permissionService.hasPermission(request.user!, 'posts:publish'))
+      ) {
+        return sendForbidden(reply, 'posts:publish');
+      }
+
+      logInfo(`Updating post ID: ${postId}`, { userId: request.user!.id, updates: Object.keys(validatedData) });
+      return await postService.updatePost(postId, validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error updating post', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error updating post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to update post');
+    }
+  }
+
+  // Authors delete their own posts, everyone else needs posts:delete
+  static async deletePost(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      const post = await postService.getPostById(postId);
+
+      if (!(await permissionService.can(request.user!, 'posts:delete', post.authorId ?? undefined))) {
+        return sendForbidden(reply, 'posts:delete');
+      }
+
+      logInfo(`Deleting post ID: ${postId}`, { userId: request.user!.id });
+      const result = await postService.deletePost(postId);
+
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      logError(`Error deleting post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to delete post');
+    }
+  }
+
+  // Authors submit their drafts for review, scheduling, publishing and archiving need posts:publish
+  static async transitionPost(
+    request: FastifyRequest<{ Params: { id: string }; Body: PostTransitionInput }>,
+    reply: FastifyReply
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const validatedData = postTransitionSchema.parse(request.body);
+
+      const post = await postService.getPostById(postId);
+
+      if (!(await permissionService.can(request.user!, 'posts:update', post.authorId ?? undefined))) {
+        return sendForbidden(reply, 'posts:update');
+      }
+
+      if (
+        postWorkflowService.isEditorialTransition(post.status, validatedData.status) &&
+        !(await permissionService.hasPermission(request.user!, 'posts:publish'))
+      ) {
+        return sendForbidden(reply, 'posts:publish');
+      }
+
+      logInfo(`Changing status of post ID: ${postId}`, { userId: request.user!.id, from: post.status, to: validatedData.status });
+      await postWorkflowService.transition(postId, validatedData, request.user!.id);
+
+      return await postService.getPostById(postId);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error changing post status', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error changing status of post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to change post status');
+    }
+  }
+
+  // Status history, visible to whoever may edit the post
+  static async getPostTransitions(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      const post = await postService.getPostById(postId);
+
+      if (!(await permissionService.can(request.user!, 'posts:update', post.authorId ?? undefined))) {
+        return sendForbidden(reply, 'posts:update');
+      }
+
+      return await postWorkflowService.listTransitions(postId);
+    } catch (error) {
+      logError(`Error fetching status history of post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to fetch post status history');
+    }
+  }
+
+  // Tagging is editing the post: authors tag their own posts, everyone else needs posts:update
+  static async attachTags(
+    request: FastifyRequest<{ Params: { id: string }; Body: PostTagsInput }>,
+    reply: FastifyReply
+  ) {
+    return PostController.changeTags(request, reply, 'attach');
+  }
+
+  static async detachTags(
+    request: FastifyRequest<{ Params: { id: string }; Body: PostTagsInput }>,
+    reply: FastifyReply
+  ) {
+    return PostController.changeTags(request, reply, 'detach');
+  }
+
+  private static async changeTags(
+    request: FastifyRequest<{ Params: { id: string }; Body: PostTagsInput }>,
+    reply: FastifyReply,
+    action: 'attach' | 'detach'
+  ) {
+    const postId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const { tags } = postTagsSchema.parse(request.body);
+
+      const post = await postService.getPostById(postId);
+
+      if (!(await permissionService.can(request.user!, 'posts:update', post.authorId ?? undefined))) {
+        return sendForbidden(reply, 'posts:update');
+      }
+
+      if (action === 'attach') {
+        await tagService.attachTags(postId, tags);
+      } else {
+        await tagService.detachTags(postId, tags);
+      }
+
+      return await postService.getPostById(postId);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError(`Validation error changing tags of post ID ${postId}`, error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error changing tags of post ID ${postId}`, error);
+      return sendAppError(reply, error, 'Failed to change post tags');
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PermissionService } from '../services/permissionService';
+import { PERMISSIONS } from '../types/permission';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import { createRoleSchema, updateRoleSchema, CreateRoleInput, UpdateRoleInput } from '../validations/roleValidation';
+import { z } from 'zod';
+
+const permissionService = new PermissionService();
+
+const sendValidationError = (reply: FastifyReply, error: z.ZodError) => {
+  const errorDetails = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+  return reply.status(400).send({
+    error: 'Validation Error',
+    message: 'Invalid input data',
+    details: errorDetails
+  });
+};
+
+const sendAppError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  const statusCode = error instanceof AppError ? error.statusCode : 400;
+  const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+  return reply.status(statusCode).send({
+    error: statusCode === 404 ? 'Role not found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+    message: errorMessage
+  });
+};
+
+export class RoleController {
+  static async getPermissions() {
+    return { permissions: PERMISSIONS };
+  }
+
+  static async getRoles(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      return await permissionService.listRoles();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error fetching roles', error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async createRole(
+    request: FastifyRequest<{ Body: CreateRoleInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = createRoleSchema.parse(request.body);
+
+      logInfo(`Creating role ${validatedData.name}`, { adminId: request.user!.id });
+      const role = await permissionService.createRole(validatedData);
+
+      reply.status(201).send(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error creating role', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError('Error creating role', error);
+      return sendAppError(reply, error, 'Failed to create role');
+    }
+  }
+
+  static async updateRole(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateRoleInput }>,
+    reply: FastifyReply
+  ) {
+    const roleId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const validatedData = updateRoleSchema.parse(request.body);
+
+      logInfo(`Updating role ID: ${roleId}`, { adminId: request.user!.id, updates: validatedData });
+      return await permissionService.updateRole(roleId, validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error updating role', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error updating role ID ${roleId}`, error);
+      return sendAppError(reply, error, 'Failed to update role');
+    }
+  }
+
+  static async deleteRole(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const roleId = parseInt(request.params.id);
+    try {
+      logInfo(`Deleting role ID: ${roleId}`, { adminId: request.user!.id });
+      const result = await permissionService.deleteRole(roleId);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      logError(`Error deleting role ID ${roleId}`, error);
+      return sendAppError(reply, error, 'Failed to delete role');
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { SessionService } from '../services/sessionService';
+import { logError, logInfo } from '../utils/logger';
+
+const sessionService = new SessionService();
+
+export class SessionController {
+  static async getMySessions(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      return await sessionService.listActiveSessions(userId, request.user!.jti);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error fetching sessions for user ID ${userId}`, error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async revokeMySession(
+    request: FastifyRequest<{ Params: { sessionId: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    const { sessionId } = request.params;
+    try {
+      logInfo(`Revoking session ${sessionId} for user ID: ${userId}`);
+      const result = await sessionService.revokeSession(userId, sessionId);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error revoking session ${sessionId} for user ID ${userId}`, error);
+      reply.status(404).send({
+        error: 'Session not found',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async revokeMyOtherSessions(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      logInfo(`Revoking other sessions for user ID: ${userId}`);
+      const result = await sessionService.revokeOtherSessions(userId, request.user!.jti);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error revoking other sessions for user ID ${userId}`, error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async getUserSessions(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    try {
+      logInfo(`Fetching sessions for user ID: ${userId}`, { adminId: request.user!.id });
+      return await sessionService.listActiveSessions(userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error fetching sessions for user ID ${userId}`, error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async revokeUserSession(
+    request: FastifyRequest<{ Params: { id: string; sessionId: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    const { sessionId } = request.params;
+    try {
+      logInfo(`Revoking session ${sessionId} for user ID: ${userId}`, { adminId: request.user!.id });
+      const result = await sessionService.revokeSession(userId, sessionId);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error revoking session ${sessionId} for user ID ${userId}`, error);
+      reply.status(404).send({
+        error: 'Session not found',
+        message: errorMessage
+      });
+    }
+  }
+}
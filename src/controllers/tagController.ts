@@ -0,0 +1,127 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { TagService } from '../services/tagService';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import {
+  createTagSchema,
+  updateTagSchema,
+  CreateTagInput,
+  UpdateTagInput,
+} from '../validations/tagValidation';
+import { z } from 'zod';
+
+const tagService = new TagService();
+
+const sendValidationError = (reply: FastifyReply, error: z.ZodError) => {
+  const errorDetails = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+  return reply.status(400).send({
+    error: 'Validation Error',
+    message: 'Invalid input data',
+    details: errorDetails
+  });
+};
+
+const sendAppError = (reply: FastifyReply, error: unknown, fallbackMessage: string) => {
+  const statusCode = error instanceof AppError ? error.statusCode : 400;
+  const errorMessage = error instanceof Error ? error.message : fallbackMessage;
+  return reply.status(statusCode).send({
+    error: statusCode === 404 ? 'Tag not found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+    message: errorMessage
+  });
+};
+
+export class TagController {
+  static async getTags(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      return await tagService.listTags();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error fetching tags', error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async getTagById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const tagId = parseInt(request.params.id);
+    try {
+      return await tagService.getTagById(tagId);
+    } catch (error) {
+      logError(`Error fetching tag ID ${tagId}`, error);
+      return sendAppError(reply, error, 'Failed to fetch tag');
+    }
+  }
+
+  static async createTag(
+    request: FastifyRequest<{ Body: CreateTagInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      // Validate request body
+      const validatedData = createTagSchema.parse(request.body);
+
+      logInfo(`Creating tag ${validatedData.name}`, { adminId: request.user!.id });
+      const tag = await tagService.createTag(validatedData);
+
+      reply.status(201).send(tag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error creating tag', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError('Error creating tag', error);
+      return sendAppError(reply, error, 'Failed to create tag');
+    }
+  }
+
+  static async updateTag(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateTagInput }>,
+    reply: FastifyReply
+  ) {
+    const tagId = parseInt(request.params.id);
+    try {
+      // Validate request body
+      const validatedData = updateTagSchema.parse(request.body);
+
+      logInfo(`Updating tag ID: ${tagId}`, { adminId: request.user!.id, updates: validatedData });
+      return await tagService.updateTag(tagId, validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error updating tag', error);
+        return sendValidationError(reply, error);
+      }
+
+      logError(`Error updating tag ID ${tagId}`, error);
+      return sendAppError(reply, error, 'Failed to update tag');
+    }
+  }
+
+  // Detaches the tag from every post before removing it
+  static async deleteTag(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const tagId = parseInt(request.params.id);
+    try {
+      logInfo(`Deleting tag ID: ${tagId}`, { adminId: request.user!.id });
+      const result = await tagService.deleteTag(tagId);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      logError(`Error deleting tag ID ${tagId}`, error);
+      return sendAppError(reply, error, 'Failed to delete tag');
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { TwoFactorService } from '../services/twoFactorService';
+import { logError, logInfo } from '../utils/logger';
+import {
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  TwoFactorCodeInput,
+  DisableTwoFactorInput,
+} from '../validations/userValidation';
+import { z } from 'zod';
+
+const twoFactorService = new TwoFactorService();
+
+const sendValidationError = (reply: FastifyReply, error: z.ZodError) => {
+  const errorDetails = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+  return reply.status(400).send({
+    error: 'Validation Error',
+    message: 'Invalid input data',
+    details: errorDetails
+  });
+};
+
+export class TwoFactorController {
+  static async setup(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      logInfo(`Starting two-factor setup for user ID: ${userId}`);
+      return await twoFactorService.setup(userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start two-factor setup';
+      logError(`Error starting two-factor setup for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async confirm(
+    request: FastifyRequest<{ Body: TwoFactorCodeInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      // Validate request body
+      const validatedData = twoFactorCodeSchema.parse(request.body);
+
+      const result = await twoFactorService.confirm(userId, validatedData.code, request.user!.jti);
+      logInfo(`Two-factor authentication enabled for user ID: ${userId}`);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled, store the recovery codes in a safe place',
+        recoveryCodes: result.recoveryCodes
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error confirming two-factor setup', error);
+        return sendValidationError(reply, error);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to enable two-factor authentication';
+      logError(`Error confirming two-factor setup for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async disable(
+    request: FastifyRequest<{ Body: DisableTwoFactorInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      // Validate request body
+      const validatedData = disableTwoFactorSchema.parse(request.body);
+
+      const result = await twoFactorService.disable(
+        userId,
+        validatedData.password,
+        validatedData.code,
+        request.user!.jti
+      );
+      logInfo(`Two-factor authentication disabled for user ID: ${userId}`);
+
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error disabling two-factor authentication', error);
+        return sendValidationError(reply, error);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to disable two-factor authentication';
+      logError(`Error disabling two-factor authentication for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async regenerateRecoveryCodes(
+    request: FastifyRequest<{ Body: TwoFactorCodeInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      // Validate request body
+      const validatedData = twoFactorCodeSchema.parse(request.body);
+
+      const result = await twoFactorService.regenerateRecoveryCodes(userId, validatedData.code);
+      logInfo(`Recovery codes regenerated for user ID: ${userId}`);
+
+      return {
+        success: true,
+        message: 'New recovery codes generated, previous codes no longer work',
+        recoveryCodes: result.recoveryCodes
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        logError('Validation error regenerating recovery codes', error);
+        return sendValidationError(reply, error);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to regenerate recovery codes';
+      logError(`Error regenerating recovery codes for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+}
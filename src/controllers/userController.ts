@@ -1,25 +1,146 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { UserService } from '../services/userService';
 import { CreateUserRequest, UpdateUserRequest } from '../types';
-import { logError, logInfo } from '../utils/logger';
+import { TokenService } from '../services/tokenService';
+import { PermissionService } from '../services/permissionService';
+import { UserStatusService } from '../services/userStatusService';
+import { detectImportFormat, UserImportService } from '../services/userImportService';
+import { PrivacyService } from '../services/privacyService';
+import { InvitationService } from '../services/invitationService';
+import { SystemRole } from '../types/permission';
+import { AppError } from '../utils/errors';
+import { logError, logInfo, logWarning } from '../utils/logger';
 import { handleFileUpload } from '../utils/fileUpload';
-import { createUserSchema, updateUserSchema, avatarSchema, CreateUserInput, UpdateUserInput, AvatarInput } from '../validations/userValidation';
+import { createUserSchema, updateUserSchema, avatarSchema, changePasswordSchema, listUsersQuerySchema, changeUserStatusSchema, importUsersQuerySchema, exportUsersQuerySchema, deleteAccountSchema, createInvitationSchema, CreateUserInput, UpdateUserInput, AvatarInput, ChangePasswordInput, ListUsersQuery, ChangeUserStatusInput, ImportUsersQuery, ExportUsersQuery, ExportUsersOptions, DeleteAccountInput, CreateInvitationInput } from '../validations/userValidation';
 import { z } from 'zod';
+import { Readable } from 'stream';
+import { toCsvRow } from '../utils/csv';
 
 const userService = new UserService();
+const tokenService = new TokenService();
+const permissionService = new PermissionService();
+const userStatusService = new UserStatusService();
+const userImportService = new UserImportService();
+const privacyService = new PrivacyService();
+const invitationService = new InvitationService();
+
+// Columns of an export, in CSV column order
+const EXPORT_FIELDS = [
+  'id',
+  'email',
+  'name',
+  'role',
+  'status',
+  'statusReason',
+  'suspendedUntil',
+  'emailVerifiedAt',
+  'twoFactorEnabledAt',
+  'avatar',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+} as const;
+
+// Serializes the user batches into chunks of the requested format
+async function* serializeExport(options: ExportUsersOptions) {
+  let first = true;
+
+  if (options.format === 'csv') {
+    yield toCsvRow([...EXPORT_FIELDS]);
+  } else if (options.format === 'json') {
+    yield '[';
+  }
+
+  for await (const users of userService.exportUsers(options)) {
+    let chunk = '';
+    for (const user of users) {
+      const row = Object.fromEntries(EXPORT_FIELDS.map((field) => [field, user[field]]));
+      if (options.format === 'csv') {
+        chunk += toCsvRow(EXPORT_FIELDS.map((field) => user[field]));
+      } else if (options.format === 'ndjson') {
+        chunk += `${JSON.stringify(row)}\n`;
+      } else {
+        chunk += `${first ? '' : ','}\n${JSON.stringify(row)}`;
+      }
+      first = false;
+    }
+    yield chunk;
+  }
+
+  if (options.format === 'json') {
+    yield '\n]\n';
+  }
+}
 
 export class UserController {
-  static async getAllUsers(request: FastifyRequest, reply: FastifyReply) {
+  static async getAllUsers(
+    request: FastifyRequest<{ Querystring: ListUsersQuery }>,
+    reply: FastifyReply
+  ) {
     try {
-      logInfo('Fetching all users');
-      const users = await userService.getAllUsers();
-      logInfo(`Successfully fetched ${users.length} users`);
-      return users;
+      const options = listUsersQuerySchema.parse(request.query);
+      logInfo('Fetching users', { page: options.page, pageSize: options.pageSize, cursor: options.cursor });
+      const result = await userService.listUsers(options);
+      logInfo(`Successfully fetched ${result.data.length} of ${result.total} users`);
+
+      // Links keep the caller's filters and sort, only the position changes
+      const path = request.url.split('?')[0];
+      const link = (params: Record<string, string | number>) => {
+        const query = new URLSearchParams(request.query as Record<string, string>);
+        ['page', 'cursor', 'direction'].forEach((key) => query.delete(key));
+        Object.entries(params).forEach(([key, value]) => query.set(key, String(value)));
+        return `${path}?${query.toString()}`;
+      };
+      const cursorMode = Boolean(options.cursor);
+
+      return {
+        data: result.data,
+        meta: {
+          total: result.total,
+          page: cursorMode ? null : options.page,
+          pageSize: options.pageSize,
+          totalPages: Math.ceil(result.total / options.pageSize),
+          nextCursor: result.hasNext ? result.nextCursor : null,
+          prevCursor: result.hasPrev ? result.prevCursor : null,
+        },
+        links: {
+          self: request.url,
+          next: !result.hasNext
+            ? null
+            : cursorMode
+              ? link({ cursor: result.nextCursor!, direction: 'next' })
+              : link({ page: options.page + 1 }),
+          prev: !result.hasPrev
+            ? null
+            : cursorMode
+              ? link({ cursor: result.prevCursor!, direction: 'prev' })
+              : link({ page: options.page - 1 }),
+        },
+      };
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+        logError('Validation error while listing users', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: errorDetails
+        });
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logError('Error fetching users', error);
-      reply.status(500).send({
-        error: 'Internal server error',
+      reply.status(error instanceof AppError ? error.statusCode : 500).send({
+        error: error instanceof AppError ? 'Bad Request' : 'Internal server error',
         message: errorMessage
       });
     }
@@ -31,7 +152,11 @@ export class UserController {
       logInfo(`Fetching profile for user ID: ${userId}`);
       const user = await userService.getUserById(userId);
       logInfo(`Successfully fetched profile for user: ${user.email}`);
-      return user;
+      return {
+        ...user,
+        // Lets the UI show a banner while support staff act as this user
+        impersonatedBy: request.user!.act ?? null
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logError('Error fetching user profile', error);
@@ -80,9 +205,23 @@ export class UserController {
         role: validatedData.role || 'USER' // Ensure role has a default value
       };
       
+      if (userData.role !== SystemRole.USER && !(await permissionService.hasPermission(request.user!, 'roles:manage'))) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Missing required permission: roles:manage'
+        });
+      }
+
       logInfo(`Creating new user with email: ${userData.email}`);
-      const user = await userService.createUser(userData);
+      const user = await userService.createUser(userData, { revealDeleted: true });
       logInfo(`Successfully created user with ID: ${user.id}`);
+
+      // The admin typed the address, only its owner can confirm it
+      try {
+        await userService.sendVerificationEmail(user.id);
+      } catch (mailError) {
+        logError('Failed to send verification email', mailError, { userId: user.id });
+      }
       
       reply.status(201).send(user);
     } catch (error) {
@@ -115,50 +254,160 @@ export class UserController {
   ) {
     const userId = parseInt(request.params.id);
     try {
-      // Users can only update their own profile unless they're admin
-      if (request.user!.role !== 'ADMIN' && request.user!.id !== userId) {
-        logError(
-          `Unauthorized update attempt by user ${request.user!.id} for user ${userId}`,
-          new Error('Forbidden')
-        );
+      // Editing someone else needs the broader scope when authenticated with an API key
+      if (request.apiKey && request.user!.id !== userId && !request.apiKey.scopes.includes('users:write')) {
         return reply.status(403).send({
           error: 'Forbidden',
-          message: 'You can only update your own profile'
+          message: 'API key is missing the required scope: users:write'
         });
       }
 
       // Validate request body
       const validatedData = updateUserSchema.parse(request.body);
 
+      // Assigning roles is a separate privilege, also on one's own profile
+      if (validatedData.role && !(await permissionService.hasPermission(request.user!, 'roles:manage'))) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Missing required permission: roles:manage'
+        });
+      }
+
       logInfo(`Updating user with ID: ${userId}`, { updates: validatedData });
-      const user = await userService.updateUser(userId, validatedData);
+      // Neither an impersonation session nor a leaked API key may move the account to another address
+      const user = await userService.updateUser(userId, validatedData, {
+        allowEmailChange: !request.user!.act && !request.apiKey,
+      });
       logInfo(`Successfully updated user with ID: ${userId}`);
       return user;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to update user';
       logError(`Error updating user ID ${userId}`, error);
-      reply.status(400).send({
+      reply.status(error instanceof AppError ? error.statusCode : 400).send({
         error: 'Failed to update user',
         message: errorMessage
       });
     }
   }
 
+  static async changePassword(
+    request: FastifyRequest<{ Body: ChangePasswordInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      // Validate request body
+      const validatedData = changePasswordSchema.parse(request.body);
+
+      logInfo(`Changing password for user ID: ${userId}`);
+      const result = await userService.changePassword(
+        userId,
+        validatedData.currentPassword,
+        validatedData.password,
+        request.user!.jti
+      );
+      logInfo(`Successfully changed password for user ID: ${userId}`);
+
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error changing password', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid input data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change password';
+      logError(`Error changing password for user ID ${userId}`, error);
+      reply.status(400).send({
+        error: 'Failed to change password',
+        message: errorMessage
+      });
+    }
+  }
+
+  // GDPR data export of the caller as a zip download
+  static async exportMyData(request: FastifyRequest, reply: FastifyReply) {
+    const userId = request.user!.id;
+    try {
+      logInfo(`Exporting personal data for user ID: ${userId}`);
+      const archive = await privacyService.createExportArchive(userId);
+      const fileName = `user-${userId}-data-${new Date().toISOString().slice(0, 10)}.zip`;
+
+      return reply
+        .header('Content-Type', 'application/zip')
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .header('Cache-Control', 'no-store')
+        .send(archive);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error exporting personal data for user ID ${userId}`, error);
+      reply.status(error instanceof AppError ? error.statusCode : 500).send({
+        error: 'Failed to export data',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async deleteMyAccount(
+    request: FastifyRequest<{ Body: DeleteAccountInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.id;
+    try {
+      const validatedData = deleteAccountSchema.parse(request.body);
+
+      logInfo(`Account deletion requested by user ID: ${userId}`);
+      const result = await privacyService.requestErasure(userId, validatedData.password);
+
+      return {
+        success: true,
+        ...result
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error deleting account', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid input data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete account';
+      logError(`Error deleting account of user ID ${userId}`, error);
+      reply.status(error instanceof AppError ? error.statusCode : 400).send({
+        error: 'Failed to delete account',
+        message: errorMessage
+      });
+    }
+  }
+
   static async uploadAvatar(
     request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
   ) {
     const userId = parseInt(request.params.id);
 
-    // Check if user is updating their own avatar or is admin
-    if (request.user!.role !== 'ADMIN' && request.user!.id !== userId) {
-      logError(
-        `Unauthorized avatar update attempt by user ${request.user!.id} for user ${userId}`,
-        new Error('Forbidden')
-      );
+    if (request.apiKey && request.user!.id !== userId && !request.apiKey.scopes.includes('users:write')) {
       return reply.status(403).send({
         error: 'Forbidden',
-        message: 'You can only update your own avatar'
+        message: 'API key is missing the required scope: users:write'
       });
     }
 
@@ -228,6 +477,65 @@ export class UserController {
     }
   }
 
+  static async unlockUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    try {
+      logInfo(`Unlocking login for user ID: ${userId}`, { adminId: request.user!.id });
+      const result = await userService.unlockUser(userId);
+      logInfo(`Successfully unlocked login for user ID: ${userId}`);
+      return {
+        success: true,
+        message: result.message
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error unlocking user ID ${userId}`, error);
+      reply.status(404).send({
+        error: 'User not found',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async impersonateUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply,
+    fastify: any
+  ) {
+    const userId = parseInt(request.params.id);
+    const actor = request.user!;
+    try {
+      const user = await userService.getImpersonationTarget(userId, actor.id);
+      const result = await tokenService.issueImpersonationToken(fastify, user, {
+        id: actor.id,
+        email: actor.email
+      });
+
+      logWarning('Impersonation started', {
+        actorId: actor.id,
+        actorEmail: actor.email,
+        userId: user.id,
+        ip: request.ip
+      });
+
+      return {
+        ...result,
+        user
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error impersonating user ID ${userId}`, error, { actorId: actor.id });
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 404 ? 'User not found' : statusCode === 403 ? 'Forbidden' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
   static async deleteUser(
     request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
@@ -247,6 +555,288 @@ export class UserController {
       });
     }
   }
+
+  static async exportUsers(
+    request: FastifyRequest<{ Querystring: ExportUsersQuery }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const options = exportUsersQuerySchema.parse(request.query);
+      const fileName = `users-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+
+      logInfo('Exporting users', { actorId: request.user!.id, format: options.format });
+
+      const stream = Readable.from(serializeExport(options));
+      stream.on('error', (error) => logError('Error streaming user export', error));
+
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES[options.format])
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .header('Cache-Control', 'no-store')
+        .send(stream);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while exporting users', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid query parameters',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error exporting users', error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async importUsers(
+    request: FastifyRequest<{ Querystring: ImportUsersQuery }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const options = importUsersQuerySchema.parse(request.query);
+
+      if (!request.isMultipart()) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'Request must be multipart/form-data'
+        });
+      }
+
+      const file = await request.file();
+      if (!file) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'No file uploaded'
+        });
+      }
+
+      const format = options.format ?? detectImportFormat(file.filename, file.mimetype);
+      if (!format) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'Unable to tell the file format, upload a .csv or .json file or pass ?format='
+        });
+      }
+
+      const content = (await file.toBuffer()).toString('utf8');
+
+      logInfo('Importing users', { actorId: request.user!.id, format, dryRun: options.dryRun, invite: options.invite });
+      const result = await userImportService.importUsers(content, format, {
+        dryRun: options.dryRun,
+        invite: options.invite,
+        canAssignRoles: await permissionService.hasPermission(request.user!, 'roles:manage'),
+        actorRole: request.user!.role,
+        invitedById: request.user!.id,
+      });
+      logInfo(`Import processed ${result.total} rows`, { created: result.created, updated: result.updated, failed: result.failed });
+
+      return result;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while importing users', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid import options',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error importing users', error);
+      reply.status(error instanceof AppError ? error.statusCode : 400).send({
+        error: 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async createInvitation(
+    request: FastifyRequest<{ Body: CreateInvitationInput }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const validatedData = createInvitationSchema.parse(request.body);
+
+      if (validatedData.role !== SystemRole.USER && !(await permissionService.hasPermission(request.user!, 'roles:manage'))) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Missing required permission: roles:manage'
+        });
+      }
+
+      logInfo(`Inviting user with email: ${validatedData.email}`);
+      const invitation = await invitationService.createInvitation(validatedData, request.user!.id);
+      logInfo(`Successfully invited user with ID: ${invitation.user.id}`);
+
+      reply.status(201).send(invitation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while inviting user', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid invitation data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error inviting user', error);
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 409 ? 'Conflict' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async getInvitations(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      return await invitationService.listInvitations();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('Error fetching invitations', error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async resendInvitation(
+    request: FastifyRequest<{ Params: { invitationId: string } }>,
+    reply: FastifyReply
+  ) {
+    const invitationId = parseInt(request.params.invitationId);
+    try {
+      logInfo(`Resending invitation ID: ${invitationId}`);
+      return await invitationService.resendInvitation(invitationId, request.user!.role);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error resending invitation ID ${invitationId}`, error);
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 403 ? 'Forbidden' : statusCode === 404 ? 'Not Found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async revokeInvitation(
+    request: FastifyRequest<{ Params: { invitationId: string } }>,
+    reply: FastifyReply
+  ) {
+    const invitationId = parseInt(request.params.invitationId);
+    try {
+      logInfo(`Revoking invitation ID: ${invitationId}`);
+      return await invitationService.revokeInvitation(invitationId, request.user!.role);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error revoking invitation ID ${invitationId}`, error);
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 403 ? 'Forbidden' : statusCode === 404 ? 'Not Found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async changeUserStatus(
+    request: FastifyRequest<{ Params: { id: string }; Body: ChangeUserStatusInput }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    try {
+      const validatedData = changeUserStatusSchema.parse(request.body);
+
+      logInfo(`Changing status of user ID ${userId} to ${validatedData.status}`);
+      const user = await userStatusService.changeStatus(userId, validatedData, request.user!.id);
+      logInfo(`Successfully changed status of user ID ${userId}`);
+      return user;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }));
+
+        logError('Validation error while changing user status', error);
+        return reply.status(400).send({
+          error: 'Validation Error',
+          message: 'Invalid status data',
+          details: errorDetails
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error changing status of user ID ${userId}`, error);
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 404 ? 'User not found' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async restoreUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    try {
+      logInfo(`Restoring user with ID: ${userId}`, { actorId: request.user!.id });
+      const user = await userService.restoreUser(userId);
+      logInfo(`Successfully restored user with ID: ${userId}`);
+      return user;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error restoring user ID ${userId}`, error);
+      reply.status(error instanceof AppError ? error.statusCode : 400).send({
+        error: error instanceof AppError && error.statusCode === 404 ? 'User not found' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
+
+  static async purgeUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = parseInt(request.params.id);
+    try {
+      logWarning(`Purging user with ID: ${userId}`, { actorId: request.user!.id });
+      const result = await userService.purgeUser(userId);
+      logInfo(`Successfully purged user with ID: ${userId}`);
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError(`Error purging user ID ${userId}`, error);
+      const statusCode = error instanceof AppError ? error.statusCode : 400;
+      reply.status(statusCode).send({
+        error: statusCode === 404 ? 'User not found' : statusCode === 409 ? 'Conflict' : 'Bad Request',
+        message: errorMessage
+      });
+    }
+  }
 }
 
 export const userController = new UserController();
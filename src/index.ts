@@ -1,6 +1,6 @@
 import Fastify, { FastifyError, FastifyRequest, FastifyReply } from "fastify";
 import cors from "@fastify/cors";
-import jwt from "@fastify/jwt";
+import jwt, { TokenOrHeader } from "@fastify/jwt";
 import swagger from "@fastify/swagger";
 import swaggerUI from "@fastify/swagger-ui";
 import fastifyMultipart, { FastifyMultipartOptions } from "@fastify/multipart";
@@ -18,7 +18,24 @@ const __dirname = dirname(__filename);
 
 import authRoutes from "./routes/auth";
 import userRoutes from "./routes/users";
+import roleRoutes from "./routes/roles";
+import postRoutes from "./routes/posts";
+import categoryRoutes from "./routes/categories";
+import tagRoutes from "./routes/tags";
 import prisma from "./config/database";
+import { SigningKeyService } from "./services/signingKeyService";
+import { PermissionService } from "./services/permissionService";
+import { UserService } from "./services/userService";
+import { UserStatusService } from "./services/userStatusService";
+import { PrivacyService } from "./services/privacyService";
+import { PostWorkflowService } from "./services/postWorkflowService";
+
+const signingKeyService = new SigningKeyService();
+const permissionService = new PermissionService();
+const userService = new UserService();
+const userStatusService = new UserStatusService();
+const privacyService = new PrivacyService();
+const postWorkflowService = new PostWorkflowService();
 
 // Load environment variables
 dotenv.config();
@@ -179,9 +196,34 @@ const start = async () => {
       credentials: true,
     });
 
-    // Register JWT
+    // Load signing keys first, a missing or weak key passphrase aborts startup
+    await signingKeyService.initialize();
+
+    // Users reference roles by name, so the built-in ones must exist
+    await permissionService.ensureSystemRoles();
+
+    // Purge users that have been soft deleted for longer than the retention period
+    userService.startRetentionJob();
+
+    // Erase accounts whose deletion grace period has ended
+    privacyService.startErasureJob();
+
+    // Lift timed suspensions that have run out
+    userStatusService.startReactivationJob();
+
+    // Publish scheduled posts once their publication time has come
+    postWorkflowService.startSchedulerJob();
+
+    // Register JWT, tokens are signed with the active key and verified by their kid
     await server.register(jwt, {
-      secret: process.env.JWT_SECRET || "your-secret-key",
+      secret: {
+        private: async () => signingKeyService.getSignOptions().key,
+        public: async (request: FastifyRequest, token: TokenOrHeader) =>
+          signingKeyService.getVerificationKey(
+            "header" in token ? token.header.kid : undefined
+          ),
+      },
+      decode: { complete: true },
     });
 
     // Add JSON content type parser
@@ -233,16 +275,29 @@ const start = async () => {
               bearerFormat: "JWT",
               description: "Enter JWT token with Bearer prefix",
             },
+            apiKeyAuth: {
+              type: "apiKey",
+              in: "header",
+              name: "X-API-Key",
+              description: "Personal access token (pat_...)",
+            },
           },
         },
         security: [
           {
             bearerAuth: [],
           },
+          {
+            apiKeyAuth: [],
+          },
         ],
         tags: [
           { name: "Auth", description: "Authentication endpoints" },
           { name: "Users", description: "User management endpoints" },
+          { name: "Roles", description: "Role and permission management endpoints" },
+          { name: "Posts", description: "Post endpoints" },
+          { name: "Categories", description: "Category management endpoints" },
+          { name: "Tags", description: "Tag management endpoints" },
         ],
       },
       hideUntagged: false,
@@ -284,6 +339,12 @@ const start = async () => {
       };
     });
 
+    // Public keys for services verifying our access tokens
+    server.get("/.well-known/jwks.json", async (request, reply) => {
+      reply.header("Cache-Control", "public, max-age=300");
+      return signingKeyService.getJwks();
+    });
+
     // Health check route
     server.get("/health", async (request, reply) => {
       try {
@@ -329,6 +390,13 @@ const start = async () => {
         instance.register(authRoutes, { prefix: "/api/auth" });
         // Register user routes with /api prefix
         instance.register(userRoutes, { prefix: "/api/users" });
+        // Register role management routes with /api prefix
+        instance.register(roleRoutes, { prefix: "/api/roles" });
+        // Register post routes with /api prefix
+        instance.register(postRoutes, { prefix: "/api/posts" });
+        // Register category and tag routes with /api prefix
+        instance.register(categoryRoutes, { prefix: "/api/categories" });
+        instance.register(tagRoutes, { prefix: "/api/tags" });
       });
       // Mark routes as registered
       // @ts-ignore
@@ -1,38 +1,150 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { UserPayload } from '../types';
+import { API_KEY_PREFIX } from '../types/apiKey';
+import { TokenService } from '../services/tokenService';
+import { ApiKeyService } from '../services/apiKeyService';
+import { UserStatusService } from '../services/userStatusService';
+import { AccountStatusError } from '../utils/errors';
+import { getClientInfo, logError, logInfo } from '../utils/logger';
 
-export async function authenticate(
+const tokenService = new TokenService();
+const apiKeyService = new ApiKeyService();
+const userStatusService = new UserStatusService();
+
+// Suspended, pending and deactivated accounts are refused with a code the client can act on
+async function checkAccountStatus(
   request: FastifyRequest,
-  reply: FastifyReply
+  reply: FastifyReply,
+  userId: number
 ) {
   try {
-    const token = await request.jwtVerify<UserPayload>();
-    request.user = token;
+    await userStatusService.assertUserActive(userId);
+    return true;
   } catch (err) {
-    reply.status(401).send({ 
-      error: 'Unauthorized', 
-      message: 'Invalid or missing token' 
+    if (err instanceof AccountStatusError) {
+      reply.status(403).send({
+        error: 'Forbidden',
+        message: err.message,
+        code: err.code
+      });
+      return false;
+    }
+
+    logError('Error checking account status', err, { userId });
+    reply.status(503).send({
+      error: 'Service Unavailable',
+      message: 'Unable to verify account status'
+    });
+    return false;
+  }
+}
+
+// API keys are accepted as "Authorization: Bearer pat_..." or in the X-API-Key header
+const getApiKey = (request: FastifyRequest) => {
+  const headerKey = request.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey) {
+    return headerKey;
+  }
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authorization.slice('Bearer '.length);
+  }
+
+  return null;
+};
+
+async function authenticateApiKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  key: string
+) {
+  try {
+    const result = await apiKeyService.authenticate(key);
+    if (!result) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Invalid, expired or revoked API key'
+      });
+    }
+
+    if (!(await checkAccountStatus(request, reply, result.user.id))) {
+      return reply;
+    }
+
+    request.user = result.user;
+    request.apiKey = { id: result.apiKeyId, scopes: result.scopes };
+  } catch (err) {
+    logError('Error checking API key', err);
+    return reply.status(503).send({
+      error: 'Service Unavailable',
+      message: 'Unable to verify API key'
     });
   }
 }
 
-export async function adminOnly(
+export async function authenticate(
   request: FastifyRequest,
   reply: FastifyReply
 ) {
-  if (!request.user) {
-    reply.status(401).send({ 
+  const apiKey = getApiKey(request);
+  if (apiKey) {
+    return authenticateApiKey(request, reply, apiKey);
+  }
+
+  let token: UserPayload;
+  try {
+    token = await request.jwtVerify<UserPayload>();
+  } catch (err) {
+    return reply.status(401).send({ 
       error: 'Unauthorized', 
-      message: 'Authentication required' 
+      message: 'Invalid or missing token' 
+    });
+  }
+
+  try {
+    // Tokens without a jti cannot be revoked, so they are not accepted either
+    if (!token.jti || await tokenService.isAccessTokenRevoked(token.jti)) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Token has been revoked'
+      });
+    }
+  } catch (err) {
+    logError('Error checking token revocation', err, { userId: token.id });
+    return reply.status(503).send({
+      error: 'Service Unavailable',
+      message: 'Unable to verify token'
     });
-    return;
   }
 
-  if (request.user.role !== 'ADMIN') {
-    reply.status(403).send({ 
-      error: 'Forbidden', 
-      message: 'Admin access required' 
+  if (!(await checkAccountStatus(request, reply, token.id))) {
+    return reply;
+  }
+
+  request.user = token;
+
+  // Audit trail: every request made under impersonation names the real admin
+  if (token.act) {
+    logInfo('Impersonated request', {
+      actorId: token.act.id,
+      actorEmail: token.act.email,
+      userId: token.id,
+      method: request.method,
+      url: request.url,
+      ip: request.ip
     });
-    return;
   }
-}
\ No newline at end of file
+
+  // Keep "last seen" of the session current, never blocking the request on it
+  touchSession(token.jti!, request).catch((err) =>
+    logError('Error updating session activity', err, { userId: token.id })
+  );
+}
+
+async function touchSession(jti: string, request: FastifyRequest) {
+  const familyId = await tokenService.getAccessTokenFamilyId(jti);
+  if (familyId) {
+    await tokenService.touchSession(familyId, getClientInfo(request));
+  }
+}
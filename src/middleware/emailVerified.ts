@@ -0,0 +1,23 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import authConfig from '../config/auth';
+import { UserService } from '../services/userService';
+import { logError } from '../utils/logger';
+
+const userService = new UserService();
+
+export async function requireVerifiedEmail(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  if (authConfig.emailVerificationPolicy === 'off') {
+    return;
+  }
+
+  if (!request.user || !(await userService.isEmailVerified(request.user.id))) {
+    logError('Unverified email access denied', new Error('Forbidden'), { userId: request.user?.id });
+    return reply.status(403).send({
+      error: 'Forbidden',
+      message: 'Email address must be verified'
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import authConfig from '../config/auth';
+import { PermissionService } from '../services/permissionService';
+import { Permission, SystemRole } from '../types/permission';
+import { logError } from '../utils/logger';
+
+const permissionService = new PermissionService();
+
+interface PermissionOptions {
+  // Owner of the targeted resource, ownable permissions are granted to the owner
+  ownerId?: (request: FastifyRequest) => number | undefined;
+}
+
+// Requires every listed permission, resolved from the caller's role at request time
+export function requirePermission(
+  permissions: Permission | Permission[],
+  options: PermissionOptions = {}
+) {
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const user = request.user;
+    if (!user) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      });
+    }
+
+    // Admin 2FA policy only applies when the role grant is used, not for the caller's own resources
+    let usesRoleGrant = false;
+
+    try {
+      const ownerId = options.ownerId?.(request);
+      for (const permission of required) {
+        if (permissionService.isOwnerGrant(user, permission, ownerId)) {
+          continue;
+        }
+        usesRoleGrant = true;
+        if (!(await permissionService.hasPermission(user, permission))) {
+          logError('Permission denied', new Error('Forbidden'), { userId: user.id, permission });
+          return reply.status(403).send({
+            error: 'Forbidden',
+            message: `Missing required permission: ${permission}`
+          });
+        }
+      }
+    } catch (err) {
+      logError('Error resolving permissions', err, { userId: user.id });
+      return reply.status(503).send({
+        error: 'Service Unavailable',
+        message: 'Unable to verify permissions'
+      });
+    }
+
+    if (
+      usesRoleGrant &&
+      authConfig.twoFactor.requiredForAdmins &&
+      user.role === SystemRole.ADMIN &&
+      !user.mfa
+    ) {
+      logError('Admin access without two-factor authentication denied', new Error('Forbidden'), { userId: user.id });
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Two-factor authentication is required for admin accounts'
+      });
+    }
+  };
+}
+
+// Rejects actions on users that hold permissions the caller lacks, see PermissionService.canManageUser
+export function requireManageableUser(targetId: (request: FastifyRequest) => number) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const user = request.user;
+    if (!user) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      });
+    }
+
+    try {
+      if (!(await permissionService.canManageUser(user, targetId(request)))) {
+        logError('Action on more privileged user denied', new Error('Forbidden'), {
+          userId: user.id,
+          targetUserId: targetId(request),
+        });
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'You cannot manage a user with more privileges than your own'
+        });
+      }
+    } catch (err) {
+      logError('Error resolving permissions', err, { userId: user.id });
+      return reply.status(503).send({
+        error: 'Service Unavailable',
+        message: 'Unable to verify permissions'
+      });
+    }
+  };
+}
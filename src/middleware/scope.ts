@@ -0,0 +1,41 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ApiKeyScope } from '../types/apiKey';
+import { logError } from '../utils/logger';
+
+// JWT sessions pass, API key requests need the scope to have been granted to the key
+export function requireScope(scope: ApiKeyScope) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    if (request.apiKey && !request.apiKey.scopes.includes(scope)) {
+      logError('API key scope denied', new Error('Forbidden'), {
+        userId: request.user?.id,
+        apiKeyId: request.apiKey.id,
+        scope
+      });
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `API key is missing the required scope: ${scope}`
+      });
+    }
+  };
+}
+
+// Account security routes (passwords, 2FA, API keys) cannot be reached with an API key
+// or by an admin impersonating the user
+export async function sessionOnly(request: FastifyRequest, reply: FastifyReply) {
+  if (request.apiKey) {
+    return reply.status(403).send({
+      error: 'Forbidden',
+      message: 'This endpoint requires a user session'
+    });
+  }
+  if (request.user?.act) {
+    logError('Account security endpoint denied under impersonation', new Error('Forbidden'), {
+      userId: request.user.id,
+      actorId: request.user.act.id
+    });
+    return reply.status(403).send({
+      error: 'Forbidden',
+      message: 'This endpoint is not available while impersonating a user'
+    });
+  }
+}
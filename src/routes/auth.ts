@@ -1,6 +1,38 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { AuthController } from '../controllers/authController';
-import { loginSchema, registerSchema, type LoginInput, type RegisterInput } from '../validations/authValidation';
+import { OidcController } from '../controllers/oidcController';
+import {
+  loginSchema,
+  registerSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  type LoginInput,
+  type RegisterInput,
+  type RefreshTokenInput,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  type ForgotPasswordInput,
+  type ResetPasswordInput,
+  loginTwoFactorSchema,
+  type VerifyEmailInput,
+  type ResendVerificationInput,
+  type LoginTwoFactorInput,
+  oidcCallbackSchema,
+  type OidcCallbackInput,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  type MagicLinkInput,
+  type VerifyMagicLinkInput,
+  cancelErasureSchema,
+  type CancelErasureInput,
+  acceptInviteSchema,
+  type AcceptInviteInput,
+  confirmEmailChangeSchema,
+  type ConfirmEmailChangeInput,
+  cancelEmailChangeSchema,
+  type CancelEmailChangeInput
+} from '../validations/authValidation';
 import { z } from 'zod';
 
 // Common user response schema
@@ -11,12 +43,71 @@ const userResponseSchema = {
     name: { type: 'string' },
     email: { type: 'string', format: 'email' },
     avatar: { type: 'string', nullable: true },
-    role: { type: 'string', enum: ['USER', 'ADMIN'] },
+    role: { type: 'string' },
+    emailVerifiedAt: { type: 'string', format: 'date-time', nullable: true },
+    twoFactorEnabledAt: { type: 'string', format: 'date-time', nullable: true },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' }
   }
 };
 
+// Token pair returned by every endpoint that signs a user in
+const authResponseSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string' },
+    refreshToken: { type: 'string' },
+    expiresIn: { type: 'string' },
+    user: userResponseSchema
+  }
+};
+
+const validationErrorResponse = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    details: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          message: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const successResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' }
+  }
+};
+
+const errorResponse = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' }
+  }
+};
+
+// Login refused because the account is suspended, pending or deactivated
+const accountStatusResponse = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    code: { type: 'string', enum: ['ACCOUNT_SUSPENDED', 'ACCOUNT_PENDING', 'ACCOUNT_DEACTIVATED'] },
+    reason: { type: 'string', nullable: true },
+    suspendedUntil: { type: 'string', format: 'date-time', nullable: true }
+  }
+};
+
 // Helper type for Zod field shape
 type ZodFieldShape = {
   _def: {
@@ -56,11 +147,14 @@ export default async function authRoutes(fastify: FastifyInstance) {
     schema: {
       body: zodToJsonSchema(loginSchema),
       response: {
+        // Either a token pair or, for accounts with 2FA, a challenge for /login/2fa
         200: {
           type: 'object',
           properties: {
-            token: { type: 'string' },
-            user: userResponseSchema
+            ...authResponseSchema.properties,
+            twoFactorRequired: { type: 'boolean' },
+            challengeToken: { type: 'string' },
+            challengeExpiresIn: { type: 'number' }
           }
         },
         400: {
@@ -86,6 +180,15 @@ export default async function authRoutes(fastify: FastifyInstance) {
             error: { type: 'string' },
             message: { type: 'string' }
           }
+        },
+        403: accountStatusResponse,
+        429: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            code: { type: 'string' }
+          }
         }
       }
     },
@@ -98,6 +201,33 @@ export default async function authRoutes(fastify: FastifyInstance) {
     },
   });
 
+  // Second login step for accounts with two-factor authentication
+  fastify.post<{ Body: LoginTwoFactorInput }>('/login/2fa', {
+    schema: {
+      body: zodToJsonSchema(loginTwoFactorSchema),
+      response: {
+        200: authResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        429: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.loginTwoFactor(
+        request as FastifyRequest<{ Body: LoginTwoFactorInput }>,
+        reply,
+        fastify
+      );
+    },
+  });
+
   // Register endpoint with file upload support
   fastify.post<{ Body: any }>('/register', {
     schema: {
@@ -134,8 +264,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
         201: {
           type: 'object',
           properties: {
-            token: { type: 'string' },
-            user: userResponseSchema
+            ...authResponseSchema.properties,
+            message: { type: 'string' }
           }
         },
         400: {
@@ -193,4 +323,319 @@ export default async function authRoutes(fastify: FastifyInstance) {
       }
     },
   });
+
+  // Exchange a refresh token for a new token pair
+  fastify.post<{ Body: RefreshTokenInput }>('/refresh', {
+    schema: {
+      body: zodToJsonSchema(refreshTokenSchema),
+      response: {
+        200: authResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.refresh(
+        request as FastifyRequest<{ Body: RefreshTokenInput }>,
+        reply,
+        fastify
+      );
+    },
+  });
+
+  // Logout (revokes the refresh token and every token rotated from it)
+  fastify.post<{ Body: RefreshTokenInput }>('/logout', {
+    schema: {
+      body: zodToJsonSchema(refreshTokenSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse,
+        401: errorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.logout(
+        request as FastifyRequest<{ Body: RefreshTokenInput }>,
+        reply
+      );
+    },
+  });
+
+  // Request a password reset link
+  fastify.post<{ Body: ForgotPasswordInput }>('/forgot-password', {
+    schema: {
+      body: zodToJsonSchema(forgotPasswordSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.forgotPassword(
+        request as FastifyRequest<{ Body: ForgotPasswordInput }>,
+        reply
+      );
+    },
+  });
+
+  // Email a single-use sign-in link
+  fastify.post<{ Body: MagicLinkInput }>('/magic-link', {
+    schema: {
+      body: zodToJsonSchema(magicLinkSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse,
+        429: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.requestMagicLink(
+        request as FastifyRequest<{ Body: MagicLinkInput }>,
+        reply
+      );
+    },
+  });
+
+  // Exchange a sign-in link token for the same response as /login
+  fastify.post<{ Body: VerifyMagicLinkInput }>('/magic-link/verify', {
+    schema: {
+      body: zodToJsonSchema(verifyMagicLinkSchema),
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...authResponseSchema.properties,
+            twoFactorRequired: { type: 'boolean' },
+            challengeToken: { type: 'string' },
+            challengeExpiresIn: { type: 'number' }
+          }
+        },
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: accountStatusResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.verifyMagicLink(
+        request as FastifyRequest<{ Body: VerifyMagicLinkInput }>,
+        reply,
+        fastify
+      );
+    },
+  });
+
+  // Set a new password using a reset token
+  fastify.post<{ Body: ResetPasswordInput }>('/reset-password', {
+    schema: {
+      body: zodToJsonSchema(resetPasswordSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.resetPassword(
+        request as FastifyRequest<{ Body: ResetPasswordInput }>,
+        reply
+      );
+    },
+  });
+
+  // Confirm an email address from the link sent by email
+  fastify.get<{ Querystring: VerifyEmailInput }>('/verify-email', {
+    schema: {
+      querystring: zodToJsonSchema(verifyEmailSchema),
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            user: userResponseSchema
+          }
+        },
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.verifyEmail(
+        request as FastifyRequest<{ Querystring: VerifyEmailInput }>,
+        reply
+      );
+    },
+  });
+
+  // Accept an invitation: choose name and password, returns tokens like login
+  fastify.post<{ Body: AcceptInviteInput }>('/accept-invite', {
+    schema: {
+      body: zodToJsonSchema(acceptInviteSchema),
+      response: {
+        200: authResponseSchema,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.acceptInvite(
+        request as FastifyRequest<{ Body: AcceptInviteInput }>,
+        reply,
+        fastify
+      );
+    },
+  });
+
+  // Cancel a pending account deletion from the link sent by email
+  fastify.post<{ Body: CancelErasureInput }>('/cancel-erasure', {
+    schema: {
+      body: zodToJsonSchema(cancelErasureSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.cancelErasure(
+        request as FastifyRequest<{ Body: CancelErasureInput }>,
+        reply
+      );
+    },
+  });
+
+  // Apply an email change from the link sent to the new address
+  fastify.post<{ Body: ConfirmEmailChangeInput }>('/confirm-email-change', {
+    schema: {
+      body: zodToJsonSchema(confirmEmailChangeSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse,
+        409: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.confirmEmailChange(
+        request as FastifyRequest<{ Body: ConfirmEmailChangeInput }>,
+        reply
+      );
+    },
+  });
+
+  // Cancel an email change from the link sent to the current address
+  fastify.post<{ Body: CancelEmailChangeInput }>('/cancel-email-change', {
+    schema: {
+      body: zodToJsonSchema(cancelEmailChangeSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.cancelEmailChange(
+        request as FastifyRequest<{ Body: CancelEmailChangeInput }>,
+        reply
+      );
+    },
+  });
+
+  // Send a new verification link
+  fastify.post<{ Body: ResendVerificationInput }>('/resend-verification', {
+    schema: {
+      body: zodToJsonSchema(resendVerificationSchema),
+      response: {
+        200: successResponse,
+        400: validationErrorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return AuthController.resendVerification(
+        request as FastifyRequest<{ Body: ResendVerificationInput }>,
+        reply
+      );
+    },
+  });
+
+  // Configured OpenID Connect providers
+  fastify.get('/oidc/providers', {
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            providers: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    },
+    handler: async () => OidcController.getProviders(),
+  });
+
+  // Start an OIDC login, the client redirects the browser to authorizationUrl
+  fastify.get<{ Params: { provider: string } }>('/oidc/:provider/authorize', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['provider'],
+        properties: {
+          provider: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            authorizationUrl: { type: 'string' }
+          }
+        },
+        400: errorResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return OidcController.authorize(
+        request as FastifyRequest<{ Params: { provider: string } }>,
+        reply
+      );
+    },
+  });
+
+  // Redirect target registered with the provider, signs the user in or completes a link
+  fastify.get<{ Params: { provider: string }; Querystring: OidcCallbackInput }>('/oidc/:provider/callback', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['provider'],
+        properties: {
+          provider: { type: 'string' }
+        }
+      },
+      querystring: zodToJsonSchema(oidcCallbackSchema),
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...authResponseSchema.properties,
+            twoFactorRequired: { type: 'boolean' },
+            challengeToken: { type: 'string' },
+            challengeExpiresIn: { type: 'number' },
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: accountStatusResponse
+      }
+    },
+    handler: async (request, reply) => {
+      return OidcController.callback(
+        request as FastifyRequest<{ Params: { provider: string }; Querystring: OidcCallbackInput }>,
+        reply,
+        fastify
+      );
+    },
+  });
 }
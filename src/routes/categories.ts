@@ -0,0 +1,186 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { CategoryController } from "../controllers/categoryController";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission";
+import { requireScope } from "../middleware/scope";
+import { CreateCategoryInput, DeleteCategoryQuery, UpdateCategoryInput } from "../validations/categoryValidation";
+
+const errorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    code: { type: "string" },
+  },
+};
+
+const validationErrorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const categoryResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+    slug: { type: "string" },
+    description: { type: "string", nullable: true },
+    postCount: { type: "number" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const categoryParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", pattern: "^\\d+$" },
+  },
+};
+
+const categoryBodyProperties = {
+  name: { type: "string", minLength: 2, maxLength: 100 },
+  slug: { type: "string", maxLength: 100, description: "Generated from the name when omitted" },
+  description: { type: "string", maxLength: 500, nullable: true },
+};
+
+// Categories are shared by every post, so only admins change them
+const manageCategories = [authenticate, requireScope("posts:write"), requirePermission("categories:manage")];
+
+export default async function categoryRoutes(fastify: FastifyInstance) {
+  // List categories with their number of posts
+  fastify.get("/", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: categoryResponseSchema,
+        },
+        401: errorResponse,
+        403: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) => CategoryController.getCategories(request, reply),
+  });
+
+  // Get category by ID
+  fastify.get<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: categoryParamsSchema,
+      response: {
+        200: categoryResponseSchema,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      CategoryController.getCategoryById(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Create category (requires categories:manage)
+  fastify.post<{ Body: CreateCategoryInput }>("/", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["name"],
+        properties: categoryBodyProperties,
+      },
+      response: {
+        201: categoryResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageCategories,
+    handler: (request, reply) =>
+      CategoryController.createCategory(
+        request as FastifyRequest<{ Body: CreateCategoryInput }>,
+        reply
+      ),
+  });
+
+  // Update category, the slug only changes when given (requires categories:manage)
+  fastify.put<{ Params: { id: string }; Body: UpdateCategoryInput }>("/:id", {
+    schema: {
+      params: categoryParamsSchema,
+      body: {
+        type: "object",
+        properties: categoryBodyProperties,
+      },
+      response: {
+        200: categoryResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageCategories,
+    handler: (request, reply) =>
+      CategoryController.updateCategory(
+        request as FastifyRequest<{ Params: { id: string }; Body: UpdateCategoryInput }>,
+        reply
+      ),
+  });
+
+  // Delete category, its posts move to reassignTo (requires categories:manage)
+  fastify.delete<{ Params: { id: string }; Querystring: DeleteCategoryQuery }>("/:id", {
+    schema: {
+      params: categoryParamsSchema,
+      querystring: {
+        type: "object",
+        properties: {
+          reassignTo: {
+            type: "integer",
+            minimum: 1,
+            description: "Category that receives the posts, required when the category still has posts",
+          },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageCategories,
+    handler: (request, reply) =>
+      CategoryController.deleteCategory(
+        request as FastifyRequest<{ Params: { id: string }; Querystring: DeleteCategoryQuery }>,
+        reply
+      ),
+  });
+}
@@ -0,0 +1,422 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { PostController } from "../controllers/postController";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission";
+import { requireScope } from "../middleware/scope";
+import { POST_STATUSES } from "../types/post";
+import { CreatePostInput, ListPostsQuery, PostTransitionInput, UpdatePostInput } from "../validations/postValidation";
+import { PostTagsInput } from "../validations/tagValidation";
+
+const errorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    code: { type: "string" },
+  },
+};
+
+const validationErrorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const successResponse = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+  },
+};
+
+// Post without its content, as returned by the list
+const postSummarySchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    title: { type: "string" },
+    slug: { type: "string" },
+    excerpt: { type: "string", nullable: true },
+    image: { type: "string", nullable: true },
+    views: { type: "number" },
+    status: { type: "string", enum: POST_STATUSES },
+    publishedAt: { type: "string", format: "date-time", nullable: true },
+    authorId: { type: "number", nullable: true },
+    author: {
+      type: "object",
+      nullable: true,
+      properties: {
+        id: { type: "number" },
+        name: { type: "string", nullable: true },
+      },
+    },
+    category: {
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        name: { type: "string" },
+        slug: { type: "string" },
+      },
+    },
+    tags: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "number" },
+          name: { type: "string" },
+          slug: { type: "string" },
+        },
+      },
+    },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const postResponseSchema = {
+  type: "object",
+  properties: {
+    ...postSummarySchema.properties,
+    content: { type: "string" },
+  },
+};
+
+const postListResponseSchema = {
+  type: "object",
+  properties: {
+    data: {
+      type: "array",
+      items: postSummarySchema,
+    },
+    meta: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        page: { type: "integer" },
+        pageSize: { type: "integer" },
+        totalPages: { type: "integer" },
+      },
+    },
+    links: {
+      type: "object",
+      properties: {
+        self: { type: "string" },
+        next: { type: "string", nullable: true },
+        prev: { type: "string", nullable: true },
+      },
+    },
+  },
+};
+
+const listPostsQuerySchema = {
+  type: "object",
+  properties: {
+    page: { type: "integer", minimum: 1, default: 1 },
+    pageSize: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+    status: { type: "string", enum: POST_STATUSES },
+    categoryId: { type: "integer", minimum: 1 },
+    authorId: { type: "integer", minimum: 1 },
+    search: { type: "string", description: "Matches part of the title" },
+    sort: {
+      type: "string",
+      default: "-createdAt",
+      description: "Comma separated id, title, views, publishedAt, createdAt, updatedAt; prefix with - for descending",
+    },
+  },
+};
+
+const postParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", pattern: "^\\d+$" },
+  },
+};
+
+const postSlugParamsSchema = {
+  type: "object",
+  required: ["slug"],
+  properties: {
+    slug: { type: "string", maxLength: 255 },
+  },
+};
+
+const postBodyProperties = {
+  title: { type: "string", minLength: 3, maxLength: 255 },
+  slug: { type: "string", maxLength: 255, description: "Generated from the title when omitted" },
+  content: { type: "string", minLength: 1 },
+  excerpt: { type: "string", maxLength: 500, nullable: true },
+  image: { type: "string", maxLength: 255, nullable: true },
+  categoryId: { type: "integer", minimum: 1 },
+};
+
+const postTransitionBodySchema = {
+  type: "object",
+  required: ["status"],
+  properties: {
+    status: { type: "string", enum: POST_STATUSES },
+    publishedAt: { type: "string", format: "date-time", description: "Publication time, required when scheduling" },
+    note: { type: "string", maxLength: 500 },
+  },
+};
+
+const postTransitionResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    fromStatus: { type: "string", nullable: true },
+    toStatus: { type: "string" },
+    note: { type: "string", nullable: true },
+    actor: {
+      type: "object",
+      nullable: true,
+      properties: {
+        id: { type: "number" },
+        name: { type: "string", nullable: true },
+      },
+    },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const postTagsBodySchema = {
+  type: "object",
+  required: ["tags"],
+  properties: {
+    tags: {
+      type: "array",
+      minItems: 1,
+      maxItems: 20,
+      items: { type: "string", minLength: 1, maxLength: 100 },
+    },
+  },
+};
+
+export default async function postRoutes(fastify: FastifyInstance) {
+  // List posts; drafts and archived posts only show up for their author and editors
+  fastify.get("/", {
+    schema: {
+      querystring: listPostsQuerySchema,
+      response: {
+        200: postListResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      PostController.getPosts(
+        request as FastifyRequest<{ Querystring: ListPostsQuery }>,
+        reply
+      ),
+  });
+
+  // Get post by slug
+  fastify.get<{ Params: { slug: string } }>("/slug/:slug", {
+    schema: {
+      params: postSlugParamsSchema,
+      response: {
+        200: postResponseSchema,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      PostController.getPostBySlug(
+        request as FastifyRequest<{ Params: { slug: string } }>,
+        reply
+      ),
+  });
+
+  // Get post by ID
+  fastify.get<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: postParamsSchema,
+      response: {
+        200: postResponseSchema,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      PostController.getPostById(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Create post as a draft of the caller (requires posts:create)
+  fastify.post<{ Body: CreatePostInput }>("/", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["title", "content", "categoryId"],
+        properties: postBodyProperties,
+      },
+      response: {
+        201: postResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write"), requirePermission("posts:create")],
+    handler: (request, reply) =>
+      PostController.createPost(
+        request as FastifyRequest<{ Body: CreatePostInput }>,
+        reply
+      ),
+  });
+
+  // Update post, the status changes through transitions
+  // (Owner or posts:update, scheduled and published posts also require posts:publish)
+  fastify.put<{ Params: { id: string }; Body: UpdatePostInput }>("/:id", {
+    schema: {
+      params: postParamsSchema,
+      body: {
+        type: "object",
+        properties: postBodyProperties,
+      },
+      response: {
+        200: postResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write")],
+    handler: (request, reply) =>
+      PostController.updatePost(
+        request as FastifyRequest<{ Params: { id: string }; Body: UpdatePostInput }>,
+        reply
+      ),
+  });
+
+  // Delete post (Owner or posts:delete)
+  fastify.delete<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: postParamsSchema,
+      response: {
+        200: successResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write")],
+    handler: (request, reply) =>
+      PostController.deletePost(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Move the post along draft, in_review, scheduled, published, archived
+  // (Owner or posts:update, scheduling, publishing and archiving also require posts:publish)
+  fastify.post<{ Params: { id: string }; Body: PostTransitionInput }>("/:id/transitions", {
+    schema: {
+      params: postParamsSchema,
+      body: postTransitionBodySchema,
+      response: {
+        200: postResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write")],
+    handler: (request, reply) =>
+      PostController.transitionPost(
+        request as FastifyRequest<{ Params: { id: string }; Body: PostTransitionInput }>,
+        reply
+      ),
+  });
+
+  // Status history of the post, oldest first (Owner or posts:update)
+  fastify.get<{ Params: { id: string } }>("/:id/transitions", {
+    schema: {
+      params: postParamsSchema,
+      response: {
+        200: {
+          type: "array",
+          items: postTransitionResponseSchema,
+        },
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      PostController.getPostTransitions(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Attach tags by name, missing tags are created (Owner or posts:update)
+  fastify.post<{ Params: { id: string }; Body: PostTagsInput }>("/:id/tags", {
+    schema: {
+      params: postParamsSchema,
+      body: postTagsBodySchema,
+      response: {
+        200: postResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write")],
+    handler: (request, reply) =>
+      PostController.attachTags(
+        request as FastifyRequest<{ Params: { id: string }; Body: PostTagsInput }>,
+        reply
+      ),
+  });
+
+  // Detach tags by name, the tags themselves are kept (Owner or posts:update)
+  fastify.delete<{ Params: { id: string }; Body: PostTagsInput }>("/:id/tags", {
+    schema: {
+      params: postParamsSchema,
+      body: postTagsBodySchema,
+      response: {
+        200: postResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:write")],
+    handler: (request, reply) =>
+      PostController.detachTags(
+        request as FastifyRequest<{ Params: { id: string }; Body: PostTagsInput }>,
+        reply
+      ),
+  });
+}
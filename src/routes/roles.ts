@@ -0,0 +1,189 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { RoleController } from "../controllers/roleController";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission";
+import { sessionOnly } from "../middleware/scope";
+import { PERMISSIONS } from "../types/permission";
+import { CreateRoleInput, UpdateRoleInput } from "../validations/roleValidation";
+
+const errorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    code: { type: "string" },
+  },
+};
+
+const validationErrorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const roleResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+    description: { type: "string", nullable: true },
+    permissions: {
+      type: "array",
+      items: { type: "string", enum: [...PERMISSIONS] },
+    },
+    isSystem: { type: "boolean" },
+    _count: {
+      type: "object",
+      properties: {
+        users: { type: "number" },
+      },
+    },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const roleParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", pattern: "^\\d+$" },
+  },
+};
+
+const roleBodyProperties = {
+  description: { type: "string", maxLength: 255 },
+  permissions: {
+    type: "array",
+    items: { type: "string", enum: [...PERMISSIONS] },
+  },
+};
+
+// Role management is an account security operation, so API keys cannot reach it
+const manageRoles = [authenticate, sessionOnly, requirePermission("roles:manage")];
+
+export default async function roleRoutes(fastify: FastifyInstance) {
+  // Every permission a role can be granted
+  fastify.get("/permissions", {
+    schema: {
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            permissions: { type: "array", items: { type: "string" } },
+          },
+        },
+        401: errorResponse,
+        403: errorResponse,
+      },
+    },
+    preHandler: manageRoles,
+    handler: () => RoleController.getPermissions(),
+  });
+
+  // List roles with their permissions and number of users
+  fastify.get("/", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: roleResponseSchema,
+        },
+        401: errorResponse,
+        403: errorResponse,
+      },
+    },
+    preHandler: manageRoles,
+    handler: (request, reply) => RoleController.getRoles(request, reply),
+  });
+
+  // Create role
+  fastify.post<{ Body: CreateRoleInput }>("/", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["name", "permissions"],
+        properties: {
+          name: { type: "string", pattern: "^[A-Z][A-Z0-9_]{1,49}$" },
+          ...roleBodyProperties,
+        },
+      },
+      response: {
+        201: roleResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageRoles,
+    handler: (request, reply) =>
+      RoleController.createRole(
+        request as FastifyRequest<{ Body: CreateRoleInput }>,
+        reply
+      ),
+  });
+
+  // Update description or permissions, the name cannot change
+  fastify.put<{ Params: { id: string }; Body: UpdateRoleInput }>("/:id", {
+    schema: {
+      params: roleParamsSchema,
+      body: {
+        type: "object",
+        properties: roleBodyProperties,
+      },
+      response: {
+        200: roleResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: manageRoles,
+    handler: (request, reply) =>
+      RoleController.updateRole(
+        request as FastifyRequest<{ Params: { id: string }; Body: UpdateRoleInput }>,
+        reply
+      ),
+  });
+
+  // Delete a custom role that is no longer assigned
+  fastify.delete<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: roleParamsSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        400: errorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageRoles,
+    handler: (request, reply) =>
+      RoleController.deleteRole(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+}
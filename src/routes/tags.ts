@@ -0,0 +1,172 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { TagController } from "../controllers/tagController";
+import { authenticate } from "../middleware/auth";
+import { requirePermission } from "../middleware/permission";
+import { requireScope } from "../middleware/scope";
+import { CreateTagInput, UpdateTagInput } from "../validations/tagValidation";
+
+const errorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    code: { type: "string" },
+  },
+};
+
+const validationErrorResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const tagResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+    slug: { type: "string" },
+    postCount: { type: "number" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+const tagParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: {
+    id: { type: "string", pattern: "^\\d+$" },
+  },
+};
+
+const tagBodyProperties = {
+  name: { type: "string", minLength: 1, maxLength: 100 },
+  slug: { type: "string", maxLength: 100, description: "Generated from the name when omitted" },
+};
+
+// Tags are also created when attached to a post, renaming and removing them is for admins
+const manageTags = [authenticate, requireScope("posts:write"), requirePermission("tags:manage")];
+
+export default async function tagRoutes(fastify: FastifyInstance) {
+  // List tags with their number of posts
+  fastify.get("/", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: tagResponseSchema,
+        },
+        401: errorResponse,
+        403: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) => TagController.getTags(request, reply),
+  });
+
+  // Get tag by ID
+  fastify.get<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: tagParamsSchema,
+      response: {
+        200: tagResponseSchema,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("posts:read")],
+    handler: (request, reply) =>
+      TagController.getTagById(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Create tag (requires tags:manage)
+  fastify.post<{ Body: CreateTagInput }>("/", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["name"],
+        properties: tagBodyProperties,
+      },
+      response: {
+        201: tagResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageTags,
+    handler: (request, reply) =>
+      TagController.createTag(
+        request as FastifyRequest<{ Body: CreateTagInput }>,
+        reply
+      ),
+  });
+
+  // Update tag, the slug only changes when given (requires tags:manage)
+  fastify.put<{ Params: { id: string }; Body: UpdateTagInput }>("/:id", {
+    schema: {
+      params: tagParamsSchema,
+      body: {
+        type: "object",
+        properties: tagBodyProperties,
+      },
+      response: {
+        200: tagResponseSchema,
+        400: validationErrorResponse,
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+        409: errorResponse,
+      },
+    },
+    preHandler: manageTags,
+    handler: (request, reply) =>
+      TagController.updateTag(
+        request as FastifyRequest<{ Params: { id: string }; Body: UpdateTagInput }>,
+        reply
+      ),
+  });
+
+  // Delete tag and detach it from its posts (requires tags:manage)
+  fastify.delete<{ Params: { id: string } }>("/:id", {
+    schema: {
+      params: tagParamsSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        401: errorResponse,
+        403: errorResponse,
+        404: errorResponse,
+      },
+    },
+    preHandler: manageTags,
+    handler: (request, reply) =>
+      TagController.deleteTag(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+}
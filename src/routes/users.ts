@@ -1,9 +1,23 @@
 import { FastifyInstance, FastifyRequest } from "fastify";
 import { UserController } from "../controllers/userController";
+import { TwoFactorController } from "../controllers/twoFactorController";
+import { ApiKeyController } from "../controllers/apiKeyController";
+import { SessionController } from "../controllers/sessionController";
+import { OidcController } from "../controllers/oidcController";
 import { authenticate } from "../middleware/auth";
-import { adminOnly } from "../middleware/admin";
+import { requireManageableUser, requirePermission } from "../middleware/permission";
+import { requireVerifiedEmail } from "../middleware/emailVerified";
+import { requireScope, sessionOnly } from "../middleware/scope";
+import { API_KEY_SCOPES } from "../types/apiKey";
+import { USER_STATUSES } from "../types/user";
+import { CreateApiKeyInput } from "../validations/apiKeyValidation";
+import { ChangeUserStatusInput, CreateInvitationInput, DeleteAccountInput, ExportUsersQuery, ImportUsersQuery, ListUsersQuery } from "../validations/userValidation";
 import { logInfo } from "../utils/logger";
 
+// Owner of the /:id resource, for ownership-aware permissions
+const targetUserId = (request: FastifyRequest) =>
+  Number((request.params as { id: string }).id);
+
 // Common schemas
 const unauthorizedResponse = {
   type: "object",
@@ -20,6 +34,7 @@ const forbiddenResponse = {
     statusCode: { type: "number", default: 403 },
     error: { type: "string", default: "Forbidden" },
     message: { type: "string" },
+    code: { type: "string" },
   },
 };
 
@@ -32,6 +47,24 @@ const notFoundResponse = {
   },
 };
 
+const badRequestResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+    details: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
 // Common user response schema
 const userResponseSchema = {
   type: "object",
@@ -40,12 +73,95 @@ const userResponseSchema = {
     name: { type: "string" },
     email: { type: "string", format: "email" },
     avatar: { type: "string", nullable: true },
-    role: { type: "string", enum: ["USER", "ADMIN"] },
+    role: { type: "string" },
+    status: { type: "string", enum: USER_STATUSES },
+    statusReason: { type: "string", nullable: true },
+    suspendedUntil: { type: "string", format: "date-time", nullable: true },
+    emailVerifiedAt: { type: "string", format: "date-time", nullable: true },
+    pendingEmail: { type: "string", nullable: true },
+    twoFactorEnabledAt: { type: "string", format: "date-time", nullable: true },
+    deletedAt: { type: "string", format: "date-time", nullable: true },
     createdAt: { type: "string", format: "date-time" },
     updatedAt: { type: "string", format: "date-time" },
   },
 };
 
+// Profile of the caller, flags tokens issued through admin impersonation
+const profileResponseSchema = {
+  type: "object",
+  properties: {
+    ...userResponseSchema.properties,
+    impersonatedBy: {
+      type: "object",
+      nullable: true,
+      properties: {
+        id: { type: "number" },
+        email: { type: "string" },
+      },
+    },
+  },
+};
+
+const recoveryCodesResponseSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+    recoveryCodes: { type: "array", items: { type: "string" } },
+  },
+};
+
+const apiKeyResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+    prefix: { type: "string" },
+    scopes: { type: "array", items: { type: "string" } },
+    expiresAt: { type: "string", format: "date-time", nullable: true },
+    lastUsedAt: { type: "string", format: "date-time", nullable: true },
+    revokedAt: { type: "string", format: "date-time", nullable: true },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const sessionResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    userAgent: { type: "string", nullable: true },
+    ipAddress: { type: "string", nullable: true },
+    createdAt: { type: "string", format: "date-time" },
+    lastSeenAt: { type: "string", format: "date-time" },
+    current: { type: "boolean" },
+  },
+};
+
+const identityResponseSchema = {
+  type: "object",
+  properties: {
+    provider: { type: "string" },
+    email: { type: "string", nullable: true },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const providerParamsSchema = {
+  type: "object",
+  required: ["provider"],
+  properties: {
+    provider: { type: "string", maxLength: 50 },
+  },
+};
+
+const successResponse = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    message: { type: "string" },
+  },
+};
+
 // Schema for getting a single user
 const getUserSchema = {
   params: {
@@ -78,7 +194,7 @@ const createUserSchema = {
       password: { type: "string", minLength: 6 },
       confirmPassword: { type: "string", minLength: 6 },
       avatar: { type: "string", nullable: true },
-      role: { type: "string", enum: ["USER", "ADMIN"], default: "USER" },
+      role: { type: "string", maxLength: 50, default: "USER" },
     },
   },
   response: {
@@ -118,7 +234,7 @@ const updateUserSchema = {
       name: { type: "string", minLength: 2 },
       email: { type: "string", format: "email" },
       avatar: { type: "string", nullable: true },
-      role: { type: "string", enum: ["USER", "ADMIN"] },
+      role: { type: "string" },
     },
   },
   response: {
@@ -191,38 +307,137 @@ const deleteUserSchema = {
   },
 };
 
+const listUsersQuerySchema = {
+  type: "object",
+  properties: {
+    page: { type: "integer", minimum: 1, default: 1 },
+    pageSize: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+    cursor: { type: "string", description: "Cursor from meta.nextCursor or meta.prevCursor" },
+    direction: { type: "string", enum: ["next", "prev"], default: "next" },
+    role: { type: "string" },
+    status: { type: "string", enum: USER_STATUSES },
+    email: { type: "string", description: "Matches part of the email" },
+    name: { type: "string", description: "Matches part of the name" },
+    createdFrom: { type: "string", description: "ISO 8601 date or date-time" },
+    createdTo: { type: "string", description: "ISO 8601 date or date-time" },
+    deleted: { type: "string", enum: ["true", "false"], description: "List soft-deleted users instead" },
+    sort: {
+      type: "string",
+      default: "-createdAt",
+      description: "Comma separated id, email, name, role, createdAt, updatedAt; prefix with - for descending",
+    },
+  },
+};
+
+const userListResponseSchema = {
+  type: "object",
+  properties: {
+    data: {
+      type: "array",
+      items: userResponseSchema,
+    },
+    meta: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        page: { type: "integer", nullable: true },
+        pageSize: { type: "integer" },
+        totalPages: { type: "integer" },
+        nextCursor: { type: "string", nullable: true },
+        prevCursor: { type: "string", nullable: true },
+      },
+    },
+    links: {
+      type: "object",
+      properties: {
+        self: { type: "string" },
+        next: { type: "string", nullable: true },
+        prev: { type: "string", nullable: true },
+      },
+    },
+  },
+};
+
+const invitationResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    user: {
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        email: { type: "string" },
+        name: { type: "string", nullable: true },
+        role: { type: "string" },
+      },
+    },
+    invitedBy: {
+      type: "object",
+      nullable: true,
+      properties: {
+        id: { type: "number" },
+        email: { type: "string" },
+      },
+    },
+    expiresAt: { type: "string", format: "date-time" },
+    sentAt: { type: "string", format: "date-time" },
+    acceptedAt: { type: "string", format: "date-time", nullable: true },
+    expired: { type: "boolean" },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+const invitationParamsSchema = {
+  type: "object",
+  required: ["invitationId"],
+  properties: {
+    invitationId: { type: "string", pattern: "^\\d+$" },
+  },
+};
+
+const conflictResponse = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
 export default async function userRoutes(fastify: FastifyInstance) {
-  // Get all users (Admin only)
-  fastify.get("/users", {
+  // Get all users (requires users:read)
+  fastify.get("/", {
     schema: {
+      querystring: listUsersQuerySchema,
       response: {
-        200: {
-          type: "array",
-          items: userResponseSchema,
-        },
+        200: userListResponseSchema,
+        400: badRequestResponse,
         401: unauthorizedResponse,
         403: forbiddenResponse,
       },
     },
-    preHandler: [authenticate, adminOnly],
-    handler: (request, reply) => UserController.getAllUsers(request, reply),
+    preHandler: [authenticate, requireScope("users:read"), requirePermission("users:read")],
+    handler: (request, reply) =>
+      UserController.getAllUsers(
+        request as FastifyRequest<{ Querystring: ListUsersQuery }>,
+        reply
+      ),
   });
 
   // Get current user profile
   fastify.get("/profile", {
     schema: {
       response: {
-        200: userResponseSchema,
+        200: profileResponseSchema,
         401: unauthorizedResponse,
         403: forbiddenResponse,
         404: notFoundResponse,
       },
     },
-    preHandler: [authenticate],
+    preHandler: [authenticate, requireScope("profile:read")],
     handler: (request, reply) => UserController.getProfile(request, reply),
   });
 
-  // Get user by ID (Admin only)
+  // Get user by ID (requires users:read)
   fastify.get<{ Params: { id: string } }>("/:id", {
     schema: {
       ...getUserSchema,
@@ -233,7 +448,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
         404: notFoundResponse,
       },
     },
-    preHandler: [authenticate, adminOnly],
+    preHandler: [authenticate, requireScope("users:read"), requirePermission("users:read")],
     handler: (request, reply) =>
       UserController.getUserById(
         request as FastifyRequest<{ Params: { id: string } }>,
@@ -241,7 +456,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
       ),
   });
 
-  // Create user (Admin only)
+  // Create user (requires users:create)
   fastify.post<{
     Body: {
       name: string;
@@ -249,7 +464,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
       password: string;
       confirmPassword: string;
       avatar?: string;
-      role: "USER" | "ADMIN";
+      role: string;
     };
   }>("/", {
     schema: {
@@ -277,7 +492,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
         403: forbiddenResponse,
       },
     },
-    preHandler: [authenticate, adminOnly],
+    preHandler: [authenticate, requireScope("users:write"), requirePermission("users:create")],
     handler: (request, reply) => {
       // Ensure role has a default value before passing to controller
       const bodyWithDefaultRole = {
@@ -295,7 +510,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
           password: string;
           confirmPassword: string;
           avatar?: string;
-          role: "USER" | "ADMIN";
+          role: string;
         };
       }>;
 
@@ -310,7 +525,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
       name?: string;
       email?: string;
       avatar?: string;
-      role?: "USER" | "ADMIN";
+      role?: string;
     };
   }>("/:id", {
     schema: {
@@ -339,7 +554,13 @@ export default async function userRoutes(fastify: FastifyInstance) {
         404: notFoundResponse,
       },
     },
-    preHandler: [authenticate],
+    preHandler: [
+      authenticate,
+      requireScope("profile:write"),
+      requirePermission("users:update", { ownerId: targetUserId }),
+      requireManageableUser(targetUserId),
+      requireVerifiedEmail,
+    ],
     handler: (request, reply) =>
       UserController.updateUser(
         request as FastifyRequest<{
@@ -348,31 +569,37 @@ export default async function userRoutes(fastify: FastifyInstance) {
             name?: string;
             email?: string;
             avatar?: string;
-            role?: "USER" | "ADMIN";
+            role?: string;
           };
         }>,
         reply
       ),
   });
 
-  // Upload user avatar
-  fastify.post<{ Params: { id: string } }>("/:id/avatar", {
+  // Change own password
+  fastify.put<{
+    Body: {
+      currentPassword: string;
+      password: string;
+      confirmPassword: string;
+    };
+  }>("/me/password", {
     schema: {
-      params: {
+      body: {
         type: "object",
-        required: ["id"],
+        required: ["currentPassword", "password", "confirmPassword"],
         properties: {
-          id: { type: "string", pattern: "^\\d+$" },
+          currentPassword: { type: "string", minLength: 1 },
+          password: { type: "string", minLength: 6 },
+          confirmPassword: { type: "string", minLength: 6 },
         },
       },
-      consumes: ["multipart/form-data"],
       response: {
         200: {
           type: "object",
           properties: {
             success: { type: "boolean" },
-            avatarUrl: { type: "string" },
-            user: userResponseSchema,
+            message: { type: "string" },
           },
         },
         400: {
@@ -393,22 +620,123 @@ export default async function userRoutes(fastify: FastifyInstance) {
           },
         },
         401: unauthorizedResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      UserController.changePassword(
+        request as FastifyRequest<{
+          Body: {
+            currentPassword: string;
+            password: string;
+            confirmPassword: string;
+          };
+        }>,
+        reply
+      ),
+  });
+
+  // Download everything stored about the caller as a zip archive
+  fastify.get("/me/export", {
+    schema: {
+      produces: ["application/zip"],
+      response: {
+        401: unauthorizedResponse,
         403: forbiddenResponse,
         404: notFoundResponse,
       },
     },
-    preHandler: [authenticate],
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => UserController.exportMyData(request, reply),
+  });
+
+  // Delete own account, erased after the grace period unless cancelled
+  fastify.delete<{ Body: DeleteAccountInput }>("/me", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["password"],
+        properties: {
+          password: { type: "string", minLength: 1 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+            erasureScheduledAt: { type: "string", format: "date-time" },
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
     handler: (request, reply) =>
-      UserController.uploadAvatar(
-        request as FastifyRequest<{ Params: { id: string } }>,
+      UserController.deleteMyAccount(
+        request as FastifyRequest<{ Body: DeleteAccountInput }>,
         reply
       ),
   });
 
-  // Delete user (Admin only)
-  fastify.delete<{ Params: { id: string } }>("/:id", {
+  // Start two-factor setup (returns secret, otpauth URI and QR code)
+  fastify.post("/me/2fa/setup", {
     schema: {
-      ...deleteUserSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            secret: { type: "string" },
+            otpauthUrl: { type: "string" },
+            qrCode: { type: "string", description: "PNG data URL" },
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => TwoFactorController.setup(request, reply),
+  });
+
+  // Confirm two-factor setup with a code from the authenticator app
+  fastify.post<{ Body: { code: string } }>("/me/2fa/confirm", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["code"],
+        properties: {
+          code: { type: "string" },
+        },
+      },
+      response: {
+        200: recoveryCodesResponseSchema,
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      TwoFactorController.confirm(
+        request as FastifyRequest<{ Body: { code: string } }>,
+        reply
+      ),
+  });
+
+  // Disable two-factor authentication
+  fastify.post<{ Body: { password: string; code: string } }>("/me/2fa/disable", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["password", "code"],
+        properties: {
+          password: { type: "string" },
+          code: { type: "string" },
+        },
+      },
       response: {
         200: {
           type: "object",
@@ -417,14 +745,685 @@ export default async function userRoutes(fastify: FastifyInstance) {
             message: { type: "string" },
           },
         },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      TwoFactorController.disable(
+        request as FastifyRequest<{ Body: { password: string; code: string } }>,
+        reply
+      ),
+  });
+
+  // Replace all recovery codes
+  fastify.post<{ Body: { code: string } }>("/me/2fa/recovery-codes", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["code"],
+        properties: {
+          code: { type: "string" },
+        },
+      },
+      response: {
+        200: recoveryCodesResponseSchema,
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      TwoFactorController.regenerateRecoveryCodes(
+        request as FastifyRequest<{ Body: { code: string } }>,
+        reply
+      ),
+  });
+
+  // Create a personal access token (the key is only returned once)
+  fastify.post<{ Body: CreateApiKeyInput }>("/me/api-keys", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["name", "scopes"],
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 100 },
+          scopes: {
+            type: "array",
+            minItems: 1,
+            items: { type: "string", enum: [...API_KEY_SCOPES] },
+          },
+          expiresInDays: { type: "integer", minimum: 1, maximum: 365, default: 90 },
+        },
+      },
+      response: {
+        201: {
+          type: "object",
+          properties: {
+            apiKey: apiKeyResponseSchema,
+            key: { type: "string" },
+          },
+        },
+        400: badRequestResponse,
         401: unauthorizedResponse,
         403: forbiddenResponse,
-        404: notFoundResponse,
       },
     },
-    preHandler: [authenticate, adminOnly],
+    preHandler: [authenticate, sessionOnly],
     handler: (request, reply) =>
-      UserController.deleteUser(
+      ApiKeyController.createApiKey(
+        request as FastifyRequest<{ Body: CreateApiKeyInput }>,
+        reply
+      ),
+  });
+
+  // List own personal access tokens
+  fastify.get("/me/api-keys", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: apiKeyResponseSchema,
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => ApiKeyController.listApiKeys(request, reply),
+  });
+
+  // Revoke a personal access token
+  fastify.delete<{ Params: { keyId: string } }>("/me/api-keys/:keyId", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["keyId"],
+        properties: {
+          keyId: { type: "string", pattern: "^\\d+$" },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      ApiKeyController.revokeApiKey(
+        request as FastifyRequest<{ Params: { keyId: string } }>,
+        reply
+      ),
+  });
+
+  // List own active sessions
+  fastify.get("/me/sessions", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: sessionResponseSchema,
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => SessionController.getMySessions(request, reply),
+  });
+
+  // Sign out everywhere except the current session
+  fastify.delete("/me/sessions", {
+    schema: {
+      response: {
+        200: successResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => SessionController.revokeMyOtherSessions(request, reply),
+  });
+
+  // Sign out a single own session
+  fastify.delete<{ Params: { sessionId: string } }>("/me/sessions/:sessionId", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["sessionId"],
+        properties: {
+          sessionId: { type: "string", maxLength: 64 },
+        },
+      },
+      response: {
+        200: successResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      SessionController.revokeMySession(
+        request as FastifyRequest<{ Params: { sessionId: string } }>,
+        reply
+      ),
+  });
+
+  // List external identity providers linked to the current user
+  fastify.get("/me/identities", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: identityResponseSchema,
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) => OidcController.getMyIdentities(request, reply),
+  });
+
+  // Start linking an identity provider, the provider redirects back to the OIDC callback
+  fastify.post<{ Params: { provider: string } }>("/me/identities/:provider", {
+    schema: {
+      params: providerParamsSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            authorizationUrl: { type: "string" },
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      OidcController.linkIdentity(
+        request as FastifyRequest<{ Params: { provider: string } }>,
+        reply
+      ),
+  });
+
+  // Unlink an identity provider
+  fastify.delete<{ Params: { provider: string } }>("/me/identities/:provider", {
+    schema: {
+      params: providerParamsSchema,
+      response: {
+        200: successResponse,
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly],
+    handler: (request, reply) =>
+      OidcController.unlinkIdentity(
+        request as FastifyRequest<{ Params: { provider: string } }>,
+        reply
+      ),
+  });
+
+  // List active sessions of a user (requires users:sessions)
+  fastify.get<{ Params: { id: string } }>("/:id/sessions", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", pattern: "^\\d+$" },
+        },
+      },
+      response: {
+        200: {
+          type: "array",
+          items: sessionResponseSchema,
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:read"), requirePermission("users:sessions"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      SessionController.getUserSessions(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Sign out a session of a user (requires users:sessions)
+  fastify.delete<{ Params: { id: string; sessionId: string } }>("/:id/sessions/:sessionId", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id", "sessionId"],
+        properties: {
+          id: { type: "string", pattern: "^\\d+$" },
+          sessionId: { type: "string", maxLength: 64 },
+        },
+      },
+      response: {
+        200: successResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:write"), requirePermission("users:sessions"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      SessionController.revokeUserSession(
+        request as FastifyRequest<{ Params: { id: string; sessionId: string } }>,
+        reply
+      ),
+  });
+
+  // Upload user avatar
+  fastify.post<{ Params: { id: string } }>("/:id/avatar", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", pattern: "^\\d+$" },
+        },
+      },
+      consumes: ["multipart/form-data"],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            avatarUrl: { type: "string" },
+            user: userResponseSchema,
+          },
+        },
+        400: {
+          type: "object",
+          properties: {
+            error: { type: "string" },
+            message: { type: "string" },
+            details: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: { type: "string" },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [
+      authenticate,
+      requireScope("profile:write"),
+      requirePermission("users:update", { ownerId: targetUserId }),
+      requireManageableUser(targetUserId),
+      requireVerifiedEmail,
+    ],
+    handler: (request, reply) =>
+      UserController.uploadAvatar(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Clear login lockout for a user (requires users:unlock)
+  fastify.post<{ Params: { id: string } }>("/:id/unlock", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", pattern: "^\\d+$" },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:write"), requirePermission("users:unlock"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      UserController.unlockUser(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Act as a user for support, issues a short-lived token with an act claim (requires users:impersonate)
+  fastify.post<{ Params: { id: string } }>("/:id/impersonate", {
+    schema: {
+      params: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string", pattern: "^\\d+$" },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            token: { type: "string" },
+            expiresIn: { type: "string" },
+            user: userResponseSchema,
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:impersonate")],
+    handler: (request, reply) =>
+      UserController.impersonateUser(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply,
+        fastify
+      ),
+  });
+
+  // Stream every user matching the list filters as a file download (requires users:export)
+  fastify.get<{ Querystring: ExportUsersQuery }>("/export", {
+    schema: {
+      querystring: {
+        type: "object",
+        properties: {
+          format: { type: "string", enum: ["csv", "json", "ndjson"], default: "csv" },
+          role: listUsersQuerySchema.properties.role,
+          status: listUsersQuerySchema.properties.status,
+          email: listUsersQuerySchema.properties.email,
+          name: listUsersQuerySchema.properties.name,
+          createdFrom: listUsersQuerySchema.properties.createdFrom,
+          createdTo: listUsersQuerySchema.properties.createdTo,
+          deleted: listUsersQuerySchema.properties.deleted,
+        },
+      },
+      produces: ["text/csv", "application/json", "application/x-ndjson"],
+      response: {
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:read"), requirePermission(["users:read", "users:export"])],
+    handler: (request, reply) =>
+      UserController.exportUsers(
+        request as FastifyRequest<{ Querystring: ExportUsersQuery }>,
+        reply
+      ),
+  });
+
+  // Invite a user by email, they choose their own name and password (requires users:create)
+  fastify.post<{ Body: CreateInvitationInput }>("/invitations", {
+    schema: {
+      body: {
+        type: "object",
+        required: ["email"],
+        properties: {
+          email: { type: "string", format: "email" },
+          name: { type: "string", minLength: 2 },
+          role: { type: "string", maxLength: 50, default: "USER" },
+        },
+      },
+      response: {
+        201: invitationResponseSchema,
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        409: conflictResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:create")],
+    handler: (request, reply) =>
+      UserController.createInvitation(
+        request as FastifyRequest<{ Body: CreateInvitationInput }>,
+        reply
+      ),
+  });
+
+  // Invitations not accepted yet (requires users:create)
+  fastify.get("/invitations", {
+    schema: {
+      response: {
+        200: {
+          type: "array",
+          items: invitationResponseSchema,
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:create")],
+    handler: (request, reply) => UserController.getInvitations(request, reply),
+  });
+
+  // Email a fresh invitation link, the previous one stops working (requires users:create)
+  fastify.post<{ Params: { invitationId: string } }>("/invitations/:invitationId/resend", {
+    schema: {
+      params: invitationParamsSchema,
+      response: {
+        200: invitationResponseSchema,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+        409: conflictResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:create")],
+    handler: (request, reply) =>
+      UserController.resendInvitation(
+        request as FastifyRequest<{ Params: { invitationId: string } }>,
+        reply
+      ),
+  });
+
+  // Revoke an invitation and remove the pending user (requires users:create)
+  fastify.delete<{ Params: { invitationId: string } }>("/invitations/:invitationId", {
+    schema: {
+      params: invitationParamsSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+        409: conflictResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:create")],
+    handler: (request, reply) =>
+      UserController.revokeInvitation(
+        request as FastifyRequest<{ Params: { invitationId: string } }>,
+        reply
+      ),
+  });
+
+  // Bulk create or update users from a CSV or JSON file (requires users:create and users:update)
+  fastify.post<{ Querystring: ImportUsersQuery }>("/import", {
+    schema: {
+      consumes: ["multipart/form-data"],
+      querystring: {
+        type: "object",
+        properties: {
+          format: { type: "string", enum: ["csv", "json"] },
+          dryRun: { type: "string", enum: ["true", "false"], description: "Validate only, nothing is written" },
+          invite: { type: "string", enum: ["true", "false"], description: "Email rows without a password a link to set one" },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            dryRun: { type: "boolean" },
+            total: { type: "integer" },
+            created: { type: "integer" },
+            updated: { type: "integer" },
+            failed: { type: "integer" },
+            invited: { type: "integer" },
+            rows: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  row: { type: "integer" },
+                  email: { type: "string", nullable: true },
+                  action: { type: "string", enum: ["create", "update", "skip"] },
+                  errors: badRequestResponse.properties.details,
+                  invited: { type: "boolean" },
+                },
+              },
+            },
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission(["users:create", "users:update"])],
+    handler: (request, reply) =>
+      UserController.importUsers(
+        request as FastifyRequest<{ Querystring: ImportUsersQuery }>,
+        reply
+      ),
+  });
+
+  // Suspend, deactivate or reactivate a user (requires users:status)
+  fastify.put<{ Params: { id: string }; Body: ChangeUserStatusInput }>("/:id/status", {
+    schema: {
+      params: deleteUserSchema.params,
+      body: {
+        type: "object",
+        required: ["status"],
+        properties: {
+          status: { type: "string", enum: USER_STATUSES },
+          reason: { type: "string", maxLength: 500 },
+          suspendedUntil: { type: "string", description: "ISO 8601 date-time, only for suspended" },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            id: { type: "number" },
+            status: { type: "string" },
+            statusReason: { type: "string", nullable: true },
+            suspendedUntil: { type: "string", format: "date-time", nullable: true },
+            statusChangedAt: { type: "string", format: "date-time", nullable: true },
+          },
+        },
+        400: badRequestResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:status"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      UserController.changeUserStatus(
+        request as FastifyRequest<{ Params: { id: string }; Body: ChangeUserStatusInput }>,
+        reply
+      ),
+  });
+
+  // Soft delete user, restorable until purged (requires users:delete)
+  fastify.delete<{ Params: { id: string } }>("/:id", {
+    schema: {
+      ...deleteUserSchema,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:write"), requirePermission("users:delete"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      UserController.deleteUser(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Restore a soft-deleted user (requires users:delete)
+  fastify.post<{ Params: { id: string } }>("/:id/restore", {
+    schema: {
+      params: deleteUserSchema.params,
+      response: {
+        200: userResponseSchema,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+      },
+    },
+    preHandler: [authenticate, requireScope("users:write"), requirePermission("users:delete"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      UserController.restoreUser(
+        request as FastifyRequest<{ Params: { id: string } }>,
+        reply
+      ),
+  });
+
+  // Permanently delete a soft-deleted user and its content (requires users:purge)
+  fastify.delete<{ Params: { id: string } }>("/:id/purge", {
+    schema: {
+      params: deleteUserSchema.params,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            message: { type: "string" },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: notFoundResponse,
+        409: conflictResponse,
+      },
+    },
+    preHandler: [authenticate, sessionOnly, requirePermission("users:purge"), requireManageableUser(targetUserId)],
+    handler: (request, reply) =>
+      UserController.purgeUser(
         request as FastifyRequest<{ Params: { id: string } }>,
         reply
       ),
@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs';
 import prisma from './config/database';
+import { PermissionService } from './services/permissionService';
 
 async function main() {
   console.log("🌱 Starting seed...");
@@ -8,6 +9,9 @@ async function main() {
   await prisma.token.deleteMany({});
   await prisma.user.deleteMany({});
 
+  // Role ADMIN dan USER harus ada sebelum user dibuat
+  await new PermissionService().ensureSystemRoles();
+
   // Hash password
   const salt = await bcrypt.genSalt(10);
   const adminPassword = await bcrypt.hash("admin123", salt);
@@ -19,6 +23,7 @@ async function main() {
     email: "admin@admin.com",
     password: adminPassword,
     role: "ADMIN" as const,
+    emailVerifiedAt: new Date(),
     avatar: "https://ui-avatars.com/api/?name=Admin&background=random",
   };
   const admin = await prisma.user.create({
@@ -31,6 +36,7 @@ async function main() {
     email: "user@user.com",
     password: userPassword,
     role: "USER" as const,
+    emailVerifiedAt: new Date(),
     avatar: "https://ui-avatars.com/api/?name=User+Biasa&background=random",
   };
   const user = await prisma.user.create({
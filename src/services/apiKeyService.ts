@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto';
+import prisma from '../config/database';
+import { UserPayload } from '../types';
+import { API_KEY_PREFIX } from '../types/apiKey';
+import { CreateApiKeyInput } from '../validations/apiKeyValidation';
+import { logError, logInfo } from '../utils/logger';
+import { hashToken } from './tokenService';
+
+// lastUsedAt is only written when it is older than this, to avoid a write per request
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export class ApiKeyService {
+  async createApiKey(userId: number, data: CreateApiKeyInput) {
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: data.name,
+        prefix: key.slice(0, 12),
+        keyHash: hashToken(key),
+        scopes: data.scopes,
+        userId,
+        expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      select: apiKeySelect
+    });
+
+    logInfo('API key created', { userId, apiKeyId: apiKey.id, scopes: data.scopes });
+
+    // The plain key is only ever returned here
+    return { apiKey, key };
+  }
+
+  async listApiKeys(userId: number) {
+    return prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: apiKeySelect
+    });
+  }
+
+  async revokeApiKey(userId: number, apiKeyId: number) {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id: apiKeyId, userId }
+    });
+
+    if (!apiKey) {
+      throw new Error('API key not found');
+    }
+
+    if (!apiKey.revokedAt) {
+      await prisma.apiKey.update({
+        where: { id: apiKeyId },
+        data: { revokedAt: new Date() }
+      });
+    }
+
+    logInfo('API key revoked', { userId, apiKeyId });
+
+    return { message: 'API key revoked successfully' };
+  }
+
+  // Resolves a presented key to the owning user, or null when it is not usable
+  async authenticate(key: string): Promise<{ user: UserPayload; apiKeyId: number; scopes: string[] } | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashToken(key) },
+      include: { user: true }
+    });
+
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      apiKey.user.deletedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt < new Date())
+    ) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+      // Bookkeeping only, a failed write must not fail the request
+      prisma.apiKey
+        .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date(now) } })
+        .catch((error) => logError('Failed to record API key usage', error, { apiKeyId: apiKey.id }));
+    }
+
+    return {
+      user: {
+        id: apiKey.user.id,
+        email: apiKey.user.email,
+        name: apiKey.user.name ?? '',
+        role: apiKey.user.role,
+        mfa: Boolean(apiKey.user.twoFactorEnabledAt),
+      },
+      apiKeyId: apiKey.id,
+      scopes: Array.isArray(apiKey.scopes) ? (apiKey.scopes as string[]) : [],
+    };
+  }
+}
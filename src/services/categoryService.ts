@@ -0,0 +1,161 @@
+import prisma from '../config/database';
+import { AppError } from '../utils/errors';
+import { logInfo } from '../utils/logger';
+import { pickUniqueSlug, slugify } from '../utils/slug';
+import { CreateCategoryInput, UpdateCategoryInput } from '../validations/categoryValidation';
+
+// Length of the slug column
+const SLUG_LENGTH = 100;
+
+const categorySelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  _count: { select: { posts: true } },
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const formatCategory = <T extends { _count: { posts: number } }>({ _count, ...category }: T) => ({
+  ...category,
+  postCount: _count.posts,
+});
+
+export class CategoryService {
+  async listCategories() {
+    const categories = await prisma.category.findMany({
+      select: categorySelect,
+      orderBy: { name: 'asc' }
+    });
+    return categories.map(formatCategory);
+  }
+
+  async getCategoryById(id: number) {
+    const category = await prisma.category.findUnique({
+      where: { id },
+      select: categorySelect
+    });
+
+    if (!category) {
+      throw new AppError('Category not found', 404, 'NOT_FOUND');
+    }
+
+    return formatCategory(category);
+  }
+
+  async createCategory(data: CreateCategoryInput) {
+    await this.assertNameAvailable(data.name);
+
+    const slug = data.slug
+      ? await this.assertSlugAvailable(data.slug)
+      : await this.generateSlug(data.name);
+
+    const category = await prisma.category.create({
+      data: { ...data, slug },
+      select: categorySelect
+    });
+
+    logInfo('Category created', { categoryId: category.id, slug });
+
+    return formatCategory(category);
+  }
+
+  // The slug is kept when the name changes so existing links keep working
+  async updateCategory(id: number, data: UpdateCategoryInput) {
+    const existingCategory = await this.getCategoryById(id);
+
+    if (data.name && data.name !== existingCategory.name) {
+      await this.assertNameAvailable(data.name, id);
+    }
+
+    if (data.slug && data.slug !== existingCategory.slug) {
+      await this.assertSlugAvailable(data.slug);
+    }
+
+    const category = await prisma.category.update({
+      where: { id },
+      data,
+      select: categorySelect
+    });
+
+    logInfo('Category updated', { categoryId: id, updates: Object.keys(data) });
+
+    return formatCategory(category);
+  }
+
+  // Posts keep a category, so they have to be moved to reassignTo before a used category goes
+  async deleteCategory(id: number, reassignTo?: number) {
+    const category = await this.getCategoryById(id);
+
+    if (category.postCount > 0 && reassignTo === undefined) {
+      throw new AppError(
+        `Category still has ${category.postCount} posts, pass reassignTo to move them to another category`,
+        409,
+        'CONFLICT'
+      );
+    }
+
+    if (reassignTo !== undefined) {
+      if (reassignTo === id) {
+        throw new AppError('Posts cannot be reassigned to the deleted category', 400, 'BAD_REQUEST');
+      }
+
+      const target = await prisma.category.findUnique({
+        where: { id: reassignTo },
+        select: { id: true }
+      });
+
+      if (!target) {
+        throw new AppError(`Category ${reassignTo} does not exist`, 400, 'BAD_REQUEST');
+      }
+    }
+
+    const [moved] = await prisma.$transaction([
+      prisma.post.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: reassignTo ?? id }
+      }),
+      prisma.category.delete({
+        where: { id }
+      }),
+    ]);
+
+    logInfo('Category deleted', { categoryId: id, reassignTo, movedPosts: moved.count });
+
+    return { message: 'Category deleted successfully' };
+  }
+
+  // Names compare case-insensitively, like the database collation
+  private async assertNameAvailable(name: string, exceptId?: number) {
+    const category = await prisma.category.findUnique({
+      where: { name },
+      select: { id: true }
+    });
+
+    if (category && category.id !== exceptId) {
+      throw new AppError('Category with this name already exists', 409, 'CONFLICT');
+    }
+  }
+
+  private async assertSlugAvailable(slug: string) {
+    const category = await prisma.category.findUnique({
+      where: { slug },
+      select: { id: true }
+    });
+
+    if (category) {
+      throw new AppError('Slug is already in use', 409, 'CONFLICT');
+    }
+
+    return slug;
+  }
+
+  private async generateSlug(name: string) {
+    const taken = await prisma.category.findMany({
+      where: { slug: { startsWith: slugify(name, SLUG_LENGTH) || 'category' } },
+      select: { slug: true }
+    });
+    return pickUniqueSlug(name, taken.map((category) => category.slug), 'category', SLUG_LENGTH);
+  }
+}
@@ -0,0 +1,201 @@
+import bcrypt from 'bcryptjs';
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import { TokenType } from '../types/token';
+import { UserStatus } from '../types/user';
+import { AppError } from '../utils/errors';
+import { logInfo } from '../utils/logger';
+import { buildAppUrl, sendMail } from '../utils/mailer';
+import { CreateInvitationInput } from '../validations/userValidation';
+import { PermissionService } from './permissionService';
+import { TokenService } from './tokenService';
+
+const tokenService = new TokenService();
+const permissionService = new PermissionService();
+
+const invitationSelect = {
+  id: true,
+  expiresAt: true,
+  sentAt: true,
+  acceptedAt: true,
+  createdAt: true,
+  user: { select: { id: true, email: true, name: true, role: true } },
+  invitedBy: { select: { id: true, email: true } },
+} as const;
+
+const formatInvitation = <T extends { expiresAt: Date; acceptedAt: Date | null }>(invitation: T) => ({
+  ...invitation,
+  expired: !invitation.acceptedAt && invitation.expiresAt <= new Date(),
+});
+
+const getExpiresAt = () => new Date(Date.now() + authConfig.invitationExpiresInHours * 60 * 60 * 1000);
+
+export class InvitationService {
+  // Creates a pending user without a password and emails the invitation link
+  async createInvitation(data: CreateInvitationInput, invitedById: number) {
+    const existingUser = await prisma.user.findUnique({
+      where: { email: data.email }
+    });
+
+    if (existingUser) {
+      throw new AppError(
+        existingUser.deletedAt
+          ? 'A deleted user with this email exists, restore it instead'
+          : 'User with this email already exists',
+        409,
+        'CONFLICT'
+      );
+    }
+
+    if (!(await permissionService.roleExists(data.role))) {
+      throw new AppError(`Role ${data.role} does not exist`, 400, 'BAD_REQUEST');
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: data.email,
+        name: data.name,
+        role: data.role,
+        password: null,
+        status: UserStatus.PENDING,
+        statusReason: 'Invitation not accepted yet',
+        statusChangedAt: new Date(),
+      }
+    });
+
+    const invitation = await this.sendInvitation(user, invitedById);
+
+    logInfo('User invited', { userId: user.id, invitedById, role: data.role });
+
+    return invitation;
+  }
+
+  // Creates or refreshes the invitation of a pending user and emails a new link
+  async sendInvitation(user: { id: number; email: string; name: string | null }, invitedById?: number) {
+    const expiresAt = getExpiresAt();
+    const token = await tokenService.createOneTimeToken(
+      user.id,
+      TokenType.INVITATION,
+      expiresAt.getTime() - Date.now()
+    );
+
+    const invitation = await prisma.invitation.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, invitedById, expiresAt },
+      update: { expiresAt, sentAt: new Date() },
+      select: invitationSelect
+    });
+
+    const acceptUrl = buildAppUrl('accept-invite', { token });
+    const inviter = invitation.invitedBy ? ` by ${invitation.invitedBy.email}` : '';
+
+    await sendMail({
+      to: user.email,
+      subject: 'You have been invited',
+      text: `Hi ${user.name || user.email},\n\nYou have been invited${inviter} to create an account. Open the link below to choose your name and password. It expires in ${authConfig.invitationExpiresInHours} hours.\n\n${acceptUrl}`,
+    });
+
+    return formatInvitation(invitation);
+  }
+
+  // Invitations that were not accepted yet, expired ones included so they can be resent
+  async listInvitations() {
+    const invitations = await prisma.invitation.findMany({
+      where: { acceptedAt: null },
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return invitations.map(formatInvitation);
+  }
+
+  // Open invitation of a user the actor may manage, see PermissionService.canManageUser
+  private async getOpenInvitation(id: number, actorRole: string) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { id },
+      include: { user: true }
+    });
+
+    if (!invitation) {
+      throw new AppError('Invitation not found', 404, 'NOT_FOUND');
+    }
+
+    if (invitation.acceptedAt) {
+      throw new AppError('Invitation has already been accepted', 409, 'CONFLICT');
+    }
+
+    // Activated or deleted by an admin in the meantime
+    if (invitation.user.status !== UserStatus.PENDING || invitation.user.deletedAt) {
+      throw new AppError('Invited user is no longer pending', 409, 'CONFLICT');
+    }
+
+    if (!(await permissionService.canManageRole(actorRole, invitation.user.role))) {
+      throw new AppError('You cannot manage a user with more privileges than your own', 403, 'FORBIDDEN');
+    }
+
+    return invitation;
+  }
+
+  async resendInvitation(id: number, actorRole: string) {
+    const invitation = await this.getOpenInvitation(id, actorRole);
+    const result = await this.sendInvitation(invitation.user);
+
+    logInfo('Invitation resent', { invitationId: id, userId: invitation.userId });
+
+    return result;
+  }
+
+  // The invited user never signed in, so it is removed together with the invitation
+  async revokeInvitation(id: number, actorRole: string) {
+    const invitation = await this.getOpenInvitation(id, actorRole);
+
+    await prisma.user.delete({
+      where: { id: invitation.userId }
+    });
+
+    logInfo('Invitation revoked', { invitationId: id, userId: invitation.userId });
+
+    return { message: 'Invitation revoked successfully' };
+  }
+
+  // Activates the invited user, returning it the same way loginUser does
+  async acceptInvitation(token: string, name: string, password: string) {
+    const inviteToken = await tokenService.consumeOneTimeToken(token, TokenType.INVITATION);
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { userId: inviteToken.userId },
+      include: { user: true }
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.user.status !== UserStatus.PENDING || invitation.user.deletedAt) {
+      throw new AppError('Invitation is no longer valid', 400, 'BAD_REQUEST');
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const now = new Date();
+
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: invitation.userId },
+        data: {
+          name,
+          password: hashedPassword,
+          status: UserStatus.ACTIVE,
+          statusReason: null,
+          statusChangedAt: now,
+          // The link was delivered to this address
+          emailVerifiedAt: invitation.user.emailVerifiedAt ?? now,
+        }
+      }),
+      prisma.invitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: now }
+      }),
+    ]);
+
+    logInfo('Invitation accepted', { invitationId: invitation.id, userId: user.id });
+
+    const { password: _password, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = user;
+    return userWithoutPassword;
+  }
+}
@@ -0,0 +1,133 @@
+import prisma from '../config/database';
+
+export interface LoginAttemptRecord {
+  failures: number;
+  firstFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// Storage for login attempt counters, keyed by "account:<email>" or "ip:<address>"
+// (also "magic:<email>" for magic link requests)
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  // Adds an attempt, starting a new window when the previous one has passed. Must be atomic,
+  // concurrent calls each see their own count
+  increment(key: string, windowMs: number): Promise<LoginAttemptRecord>;
+  // Takes back an attempt that turned out to be successful
+  decrement(key: string): Promise<void>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+const MAX_MEMORY_ENTRIES = 50000;
+
+// Default store, counters are lost on restart and not shared between instances
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, LoginAttemptRecord>();
+
+  async get(key: string) {
+    return this.records.get(key) ?? null;
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const existing = this.records.get(key);
+
+    if (!existing || existing.firstFailureAt.getTime() + windowMs < now.getTime()) {
+      if (this.records.size >= MAX_MEMORY_ENTRIES) {
+        this.prune(windowMs);
+      }
+      const record = { failures: 1, firstFailureAt: now, lockedUntil: null };
+      this.records.set(key, record);
+      return { ...record };
+    }
+
+    // A copy, so each caller keeps the count of its own attempt
+    existing.failures += 1;
+    return { ...existing };
+  }
+
+  async decrement(key: string) {
+    const existing = this.records.get(key);
+    if (existing && existing.failures > 0) {
+      existing.failures -= 1;
+    }
+  }
+
+  async lock(key: string, until: Date) {
+    const existing = this.records.get(key);
+    if (existing) {
+      existing.lockedUntil = until;
+    } else {
+      this.records.set(key, { failures: 0, firstFailureAt: new Date(), lockedUntil: until });
+    }
+  }
+
+  async reset(key: string) {
+    this.records.delete(key);
+  }
+
+  private prune(windowMs: number) {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      const windowOver = record.firstFailureAt.getTime() + windowMs < now;
+      const lockOver = !record.lockedUntil || record.lockedUntil.getTime() < now;
+      if (windowOver && lockOver) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+// Backed by the LoginAttempt table so every instance sees the same counters
+export class DatabaseLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string) {
+    return prisma.loginAttempt.findUnique({
+      where: { key },
+    });
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    // One statement so concurrent attempts cannot both reset or both read the same count.
+    // MySQL applies the assignments in order, firstFailureAt has to be updated last
+    return prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`
+        INSERT INTO LoginAttempt (\`key\`, failures, firstFailureAt, updatedAt)
+        VALUES (${key}, 1, ${now}, ${now})
+        ON DUPLICATE KEY UPDATE
+          lockedUntil = IF(firstFailureAt < ${windowStart}, NULL, lockedUntil),
+          failures = IF(firstFailureAt < ${windowStart}, 1, failures + 1),
+          firstFailureAt = IF(firstFailureAt < ${windowStart}, ${now}, firstFailureAt),
+          updatedAt = ${now}`;
+
+      // The row stays locked by the insert until commit, so this reads our own count
+      return tx.loginAttempt.findUniqueOrThrow({
+        where: { key },
+      });
+    });
+  }
+
+  async decrement(key: string) {
+    await prisma.loginAttempt.updateMany({
+      where: { key, failures: { gt: 0 } },
+      data: { failures: { decrement: 1 } },
+    });
+  }
+
+  async lock(key: string, until: Date) {
+    await prisma.loginAttempt.upsert({
+      where: { key },
+      create: { key, failures: 0, lockedUntil: until },
+      update: { lockedUntil: until },
+    });
+  }
+
+  async reset(key: string) {
+    await prisma.loginAttempt.deleteMany({
+      where: { key },
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import authConfig from '../config/auth';
+import { TooManyAttemptsError } from '../utils/errors';
+import { logInfo, logWarning } from '../utils/logger';
+import {
+  DatabaseLoginAttemptStore,
+  LoginAttemptStore,
+  MemoryLoginAttemptStore,
+} from './loginAttemptStore';
+
+const config = authConfig.loginThrottle;
+
+let store: LoginAttemptStore =
+  config.store === 'database' ? new DatabaseLoginAttemptStore() : new MemoryLoginAttemptStore();
+
+// Replace the counter storage (e.g. with a Redis implementation)
+export const setLoginAttemptStore = (customStore: LoginAttemptStore) => {
+  store = customStore;
+};
+
+const accountKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+const magicLinkKey = (email: string) => `magic:${email.trim().toLowerCase()}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class LoginThrottleService {
+  // Counts the attempt before the password is checked, so parallel guesses cannot all slip under
+  // the limit. Throws while the account or IP is locked or out of attempts, otherwise waits out
+  // the progressive delay
+  async beforeAttempt(email: string, ip?: string) {
+    const limits = [
+      { key: accountKey(email), max: config.maxAttemptsPerAccount, meta: { email } },
+      ...(ip ? [{ key: ipKey(ip), max: config.maxAttemptsPerIp, meta: { ip } }] : []),
+    ];
+    const windowMs = config.attemptWindowMinutes * 60 * 1000;
+    let delayMs = 0;
+
+    for (const { key } of limits) {
+      const record = await store.get(key);
+      if (!record?.lockedUntil) continue;
+
+      const remainingMs = record.lockedUntil.getTime() - Date.now();
+      if (remainingMs > 0) {
+        throw this.lockedError(remainingMs);
+      }
+      // Lock expired, start over with a clean counter
+      await store.reset(key);
+    }
+
+    for (const { key, max, meta } of limits) {
+      const record = await store.increment(key, windowMs);
+
+      if (record.failures > max) {
+        const lockedUntil = await this.lock(key, { ...meta, failures: record.failures });
+        throw this.lockedError(lockedUntil.getTime() - Date.now());
+      }
+
+      // Earlier attempts in the window, this one included, are all failures until proven otherwise
+      if (record.failures > 1) {
+        const delay = Math.min(config.baseDelayMs * 2 ** (record.failures - 2), config.maxDelayMs);
+        delayMs = Math.max(delayMs, delay);
+      }
+    }
+
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+  }
+
+  // The attempt was already counted by beforeAttempt, this locks once the limit is reached
+  async recordFailure(email: string, ip?: string) {
+    const account = await store.get(accountKey(email));
+    if (account && !account.lockedUntil && account.failures >= config.maxAttemptsPerAccount) {
+      await this.lock(accountKey(email), { email, failures: account.failures });
+    }
+
+    if (ip) {
+      const client = await store.get(ipKey(ip));
+      if (client && !client.lockedUntil && client.failures >= config.maxAttemptsPerIp) {
+        await this.lock(ipKey(ip), { ip, failures: client.failures });
+      }
+    }
+  }
+
+  // The account counter is cleared and the IP gets its attempt back, a valid login must not
+  // reset a sprayed IP
+  async recordSuccess(email: string, ip?: string) {
+    await store.reset(accountKey(email));
+    if (ip) {
+      await store.decrement(ipKey(ip));
+    }
+  }
+
+  async unlockAccount(email: string) {
+    await store.reset(accountKey(email));
+    logInfo('Login lockout cleared', { email });
+  }
+
+  // Counts magic link requests per email in the same store, whether or not the account exists
+  async limitMagicLinkRequests(email: string) {
+    const { maxRequestsPerEmail, requestWindowMinutes } = authConfig.magicLink;
+    const windowMs = requestWindowMinutes * 60 * 1000;
+
+    const record = await store.increment(magicLinkKey(email), windowMs);
+    if (record.failures > maxRequestsPerEmail) {
+      const remainingMs = record.firstFailureAt.getTime() + windowMs - Date.now();
+      logWarning('Magic link requests rate limited', { email, requests: record.failures });
+      throw new TooManyAttemptsError(
+        'Too many sign-in links requested, please try again later',
+        Math.max(1, Math.ceil(remainingMs / 1000))
+      );
+    }
+  }
+
+  private async lock(key: string, meta: Record<string, any>) {
+    const lockedUntil = new Date(Date.now() + config.lockoutMinutes * 60 * 1000);
+    await store.lock(key, lockedUntil);
+    logWarning('Login lockout triggered', { ...meta, lockedUntil: lockedUntil.toISOString() });
+    return lockedUntil;
+  }
+
+  private lockedError(remainingMs: number) {
+    return new TooManyAttemptsError(
+      'Too many failed login attempts, please try again later',
+      Math.max(1, Math.ceil(remainingMs / 1000))
+    );
+  }
+}
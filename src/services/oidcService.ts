@@ -0,0 +1,321 @@
+import { createHash, randomBytes } from 'crypto';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import oidcConfig, { OidcProviderConfig } from '../config/oidc';
+import { logInfo, logWarning } from '../utils/logger';
+import { hasVerifiedEmail } from './userService';
+import { UserStatusService } from './userStatusService';
+
+interface ProviderMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  issuer: string;
+}
+
+interface IdTokenClaims extends JWTPayload {
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+}
+
+// Discovery documents and key sets are cached per provider for the life of the process
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const userStatusService = new UserStatusService();
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+const getProvider = (name: string): OidcProviderConfig => {
+  const provider = oidcConfig.providers[name.toLowerCase()];
+  if (!provider) {
+    throw new Error(`Unknown identity provider: ${name}`);
+  }
+  return provider;
+};
+
+const getMetadata = async (provider: OidcProviderConfig) => {
+  const cached = metadataCache.get(provider.name);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`Failed to load OpenID configuration for ${provider.name}`);
+  }
+
+  const metadata = (await response.json()) as ProviderMetadata;
+  metadataCache.set(provider.name, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+const getJwks = (provider: OidcProviderConfig, metadata: ProviderMetadata) => {
+  let jwks = jwksCache.get(provider.name);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(metadata.jwks_uri));
+    jwksCache.set(provider.name, jwks);
+  }
+  return jwks;
+};
+
+// Same shape loginUser returns, so the caller can issue tokens or a 2FA challenge
+const getLoginUser = async (userId: number) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, deletedAt: null }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  await userStatusService.assertActive(user);
+
+  if (authConfig.emailVerificationPolicy === 'login' && !hasVerifiedEmail(user)) {
+    throw new Error('Email address has not been verified');
+  }
+
+  const { password, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+};
+
+export type OidcCallbackResult =
+  | { mode: 'login'; user: Awaited<ReturnType<typeof getLoginUser>> }
+  | { mode: 'link'; userId: number; provider: string };
+
+export class OidcService {
+  listProviders() {
+    return Object.keys(oidcConfig.providers);
+  }
+
+  // Starts an authorization code + PKCE flow, optionally linking to an existing user
+  async createAuthorizationUrl(providerName: string, linkUserId?: number) {
+    const provider = getProvider(providerName);
+    const metadata = await getMetadata(provider);
+
+    const state = base64url(randomBytes(32));
+    const nonce = base64url(randomBytes(32));
+    const codeVerifier = base64url(randomBytes(48));
+    const codeChallenge = base64url(createHash('sha256').update(codeVerifier).digest());
+
+    await prisma.oidcAuthRequest.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+    await prisma.oidcAuthRequest.create({
+      data: {
+        state,
+        provider: provider.name,
+        codeVerifier,
+        nonce,
+        linkUserId,
+        expiresAt: new Date(Date.now() + oidcConfig.authRequestExpiresInMinutes * 60 * 1000),
+      }
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', provider.redirectUri);
+    url.searchParams.set('scope', provider.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state };
+  }
+
+  async handleCallback(providerName: string, code: string, state: string): Promise<OidcCallbackResult> {
+    const provider = getProvider(providerName);
+
+    const authRequest = await prisma.oidcAuthRequest.findUnique({
+      where: { state }
+    });
+
+    if (!authRequest || authRequest.provider !== provider.name) {
+      throw new Error('Invalid or expired login state');
+    }
+
+    // State is single use whatever the outcome
+    await prisma.oidcAuthRequest.delete({
+      where: { state }
+    });
+
+    if (authRequest.expiresAt < new Date()) {
+      throw new Error('Invalid or expired login state');
+    }
+
+    const claims = await this.exchangeCode(provider, code, authRequest.codeVerifier, authRequest.nonce);
+    const subject = claims.sub!;
+    const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+
+    const existingIdentity = await prisma.userIdentity.findUnique({
+      where: { provider_subject: { provider: provider.name, subject } }
+    });
+
+    if (authRequest.linkUserId) {
+      if (existingIdentity && existingIdentity.userId !== authRequest.linkUserId) {
+        throw new Error('This provider account is already linked to another user');
+      }
+
+      await prisma.userIdentity.upsert({
+        where: { userId_provider: { userId: authRequest.linkUserId, provider: provider.name } },
+        create: { userId: authRequest.linkUserId, provider: provider.name, subject, email: claims.email },
+        update: { subject, email: claims.email }
+      });
+
+      logInfo('Identity provider linked', { userId: authRequest.linkUserId, provider: provider.name });
+      return { mode: 'link', userId: authRequest.linkUserId, provider: provider.name };
+    }
+
+    if (existingIdentity) {
+      await prisma.userIdentity.update({
+        where: { id: existingIdentity.id },
+        data: { email: claims.email }
+      });
+      return { mode: 'login', user: await getLoginUser(existingIdentity.userId) };
+    }
+
+    if (!claims.email) {
+      throw new Error('Identity provider did not return an email address');
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: claims.email }
+    });
+
+    if (existingUser?.deletedAt) {
+      throw new Error('The account with this email has been deleted');
+    }
+
+    if (existingUser) {
+      // Only a provider-verified address proves the person owns the local account
+      if (!emailVerified) {
+        logWarning('Refused to auto-link unverified provider email', {
+          provider: provider.name,
+          userId: existingUser.id
+        });
+        throw new Error('An account with this email already exists, sign in and link the provider from your account');
+      }
+
+      await prisma.userIdentity.create({
+        data: { userId: existingUser.id, provider: provider.name, subject, email: claims.email }
+      });
+      if (!existingUser.emailVerifiedAt) {
+        await prisma.user.update({
+          where: { id: existingUser.id },
+          data: { emailVerifiedAt: new Date() }
+        });
+      }
+
+      logInfo('Identity provider linked by verified email', { userId: existingUser.id, provider: provider.name });
+      return { mode: 'login', user: await getLoginUser(existingUser.id) };
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: claims.email,
+        name: claims.name,
+        password: null,
+        emailVerifiedAt: emailVerified ? new Date() : null,
+        identities: {
+          create: { provider: provider.name, subject, email: claims.email }
+        }
+      }
+    });
+
+    logInfo('User created from identity provider', { userId: user.id, provider: provider.name });
+    return { mode: 'login', user: await getLoginUser(user.id) };
+  }
+
+  async listIdentities(userId: number) {
+    return prisma.userIdentity.findMany({
+      where: { userId },
+      select: { provider: true, email: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async unlinkIdentity(userId: number, providerName: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { identities: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const identity = user.identities.find((item) => item.provider === providerName.toLowerCase());
+    if (!identity) {
+      throw new Error('Identity provider is not linked');
+    }
+
+    // Never leave an account without any way to sign in
+    if (!user.password && user.identities.length === 1) {
+      throw new Error('Set a password before unlinking your only sign-in method');
+    }
+
+    await prisma.userIdentity.delete({
+      where: { id: identity.id }
+    });
+
+    logInfo('Identity provider unlinked', { userId, provider: identity.provider });
+
+    return { message: 'Identity provider unlinked successfully' };
+  }
+
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    code: string,
+    codeVerifier: string,
+    nonce: string
+  ) {
+    const metadata = await getMetadata(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token exchange with ${provider.name} failed`);
+    }
+
+    const tokens = (await response.json()) as { id_token?: string };
+    if (!tokens.id_token) {
+      throw new Error(`${provider.name} did not return an ID token`);
+    }
+
+    const { payload } = await jwtVerify<IdTokenClaims>(tokens.id_token, getJwks(provider, metadata), {
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+    });
+
+    if (payload.nonce !== nonce) {
+      throw new Error('ID token nonce mismatch');
+    }
+
+    if (!payload.sub) {
+      throw new Error('ID token has no subject');
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,221 @@
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import { UserPayload } from '../types';
+import {
+  DEFAULT_USER_PERMISSIONS,
+  OWNABLE_PERMISSIONS,
+  Permission,
+  PERMISSIONS,
+  SystemRole,
+} from '../types/permission';
+import { AppError } from '../utils/errors';
+import { logInfo } from '../utils/logger';
+import { CreateRoleInput, UpdateRoleInput } from '../validations/roleValidation';
+
+// Role permissions are looked up on every authorized request, so keep them briefly in memory
+const rolePermissionCache = new Map<string, { permissions: Permission[]; cachedUntil: number }>();
+
+const toPermissions = (value: unknown): Permission[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is Permission => PERMISSIONS.includes(item as Permission))
+    : [];
+
+const formatRole = <T extends { name: string; permissions: unknown }>(role: T) => ({
+  ...role,
+  // ADMIN is granted permissions added after the row was created as well
+  permissions: role.name === SystemRole.ADMIN ? [...PERMISSIONS] : toPermissions(role.permissions),
+});
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { users: true } },
+} as const;
+
+export class PermissionService {
+  // Creates the built-in roles when missing, existing rows are left as configured
+  async ensureSystemRoles() {
+    await prisma.role.upsert({
+      where: { name: SystemRole.ADMIN },
+      create: {
+        name: SystemRole.ADMIN,
+        description: 'Full access',
+        permissions: [...PERMISSIONS],
+        isSystem: true,
+      },
+      update: {},
+    });
+    await prisma.role.upsert({
+      where: { name: SystemRole.USER },
+      create: {
+        name: SystemRole.USER,
+        description: 'Default role for new accounts',
+        permissions: DEFAULT_USER_PERMISSIONS,
+        isSystem: true,
+      },
+      update: {},
+    });
+  }
+
+  async getRolePermissions(roleName: string): Promise<Permission[]> {
+    if (roleName === SystemRole.ADMIN) {
+      return [...PERMISSIONS];
+    }
+
+    const cached = rolePermissionCache.get(roleName);
+    if (cached && cached.cachedUntil > Date.now()) {
+      return cached.permissions;
+    }
+
+    const role = await prisma.role.findUnique({
+      where: { name: roleName },
+      select: { permissions: true }
+    });
+    const permissions = toPermissions(role?.permissions);
+
+    rolePermissionCache.set(roleName, {
+      permissions,
+      cachedUntil: Date.now() + authConfig.revocationCacheTtlSeconds * 1000,
+    });
+
+    return permissions;
+  }
+
+  async hasPermission(user: Pick<UserPayload, 'role'>, permission: Permission) {
+    const permissions = await this.getRolePermissions(user.role);
+    return permissions.includes(permission);
+  }
+
+  // Ownable permissions are always granted on the caller's own resources
+  isOwnerGrant(user: Pick<UserPayload, 'id'>, permission: Permission, ownerId?: number) {
+    return ownerId !== undefined && ownerId === user.id && OWNABLE_PERMISSIONS.includes(permission);
+  }
+
+  // Ownership-aware check for use inside services and controllers
+  async can(user: Pick<UserPayload, 'id' | 'role'>, permission: Permission, ownerId?: number) {
+    return this.isOwnerGrant(user, permission, ownerId) || this.hasPermission(user, permission);
+  }
+
+  // Acting on another user needs every permission that user holds, so nobody can take over,
+  // lock out or sign out an account more privileged than their own. Unknown targets pass so the
+  // handler can answer with its own 404
+  async canManageUser(actor: Pick<UserPayload, 'id' | 'role'>, targetId: number) {
+    if (targetId === actor.id) {
+      return true;
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      select: { role: true }
+    });
+
+    return !target || this.canManageRole(actor.role, target.role);
+  }
+
+  // Whether holders of actorRole hold every permission of targetRole
+  async canManageRole(actorRole: string, targetRole: string) {
+    const [actorPermissions, targetPermissions] = await Promise.all([
+      this.getRolePermissions(actorRole),
+      this.getRolePermissions(targetRole),
+    ]);
+
+    return targetPermissions.every((permission) => actorPermissions.includes(permission));
+  }
+
+  async roleExists(name: string) {
+    const role = await prisma.role.findUnique({
+      where: { name },
+      select: { id: true }
+    });
+    return Boolean(role);
+  }
+
+  async listRoles() {
+    const roles = await prisma.role.findMany({
+      select: roleSelect,
+      orderBy: { name: 'asc' }
+    });
+    return roles.map(formatRole);
+  }
+
+  async getRoleById(id: number) {
+    const role = await prisma.role.findUnique({
+      where: { id },
+      select: roleSelect
+    });
+
+    if (!role) {
+      throw new AppError('Role not found', 404, 'NOT_FOUND');
+    }
+
+    return formatRole(role);
+  }
+
+  async createRole(data: CreateRoleInput) {
+    if (await this.roleExists(data.name)) {
+      throw new AppError('Role with this name already exists', 409, 'CONFLICT');
+    }
+
+    const role = await prisma.role.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        permissions: data.permissions,
+      },
+      select: roleSelect
+    });
+
+    logInfo('Role created', { roleId: role.id, name: role.name, permissions: data.permissions });
+
+    return formatRole(role);
+  }
+
+  // Name is immutable because it is carried in issued tokens
+  async updateRole(id: number, data: UpdateRoleInput) {
+    const existingRole = await this.getRoleById(id);
+
+    if (existingRole.name === SystemRole.ADMIN && data.permissions) {
+      throw new AppError('Permissions of the ADMIN role cannot be changed', 400, 'BAD_REQUEST');
+    }
+
+    const role = await prisma.role.update({
+      where: { id },
+      data: {
+        description: data.description,
+        permissions: data.permissions,
+      },
+      select: roleSelect
+    });
+
+    rolePermissionCache.delete(role.name);
+    logInfo('Role updated', { roleId: role.id, name: role.name, permissions: data.permissions });
+
+    return formatRole(role);
+  }
+
+  async deleteRole(id: number) {
+    const role = await this.getRoleById(id);
+
+    if (role.isSystem) {
+      throw new AppError('Built-in roles cannot be deleted', 400, 'BAD_REQUEST');
+    }
+
+    if (role._count.users > 0) {
+      throw new AppError('Role is still assigned to users', 409, 'CONFLICT');
+    }
+
+    await prisma.role.delete({
+      where: { id }
+    });
+
+    rolePermissionCache.delete(role.name);
+    logInfo('Role deleted', { roleId: id, name: role.name });
+
+    return { message: 'Role deleted successfully' };
+  }
+}
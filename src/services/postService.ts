@@ -0,0 +1,211 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { PostStatus } from '../types/post';
+import { AppError } from '../utils/errors';
+import { logInfo } from '../utils/logger';
+import { pickUniqueSlug, slugify } from '../utils/slug';
+import { CreatePostInput, ListPostsOptions, UpdatePostInput } from '../validations/postValidation';
+
+// Post fields with author, category and tags, the author is null once their account is erased
+const postSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  content: true,
+  excerpt: true,
+  image: true,
+  views: true,
+  status: true,
+  publishedAt: true,
+  authorId: true,
+  author: { select: { id: true, name: true } },
+  category: { select: { id: true, name: true, slug: true } },
+  postTags: { select: { tag: { select: { id: true, name: true, slug: true } } } },
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Lists leave out the content, it is fetched per post
+const { content: _content, ...postListSelect } = postSelect;
+
+const formatPost = <T extends { postTags: { tag: { id: number; name: string; slug: string } }[] }>(
+  { postTags, ...post }: T
+) => ({
+  ...post,
+  tags: postTags.map((postTag) => postTag.tag),
+});
+
+// Who is looking, drafts and archived posts are only listed for their author or editors
+export interface PostViewer {
+  id: number;
+  canSeeAll: boolean;
+}
+
+export class PostService {
+  async listPosts(options: ListPostsOptions, viewer: PostViewer) {
+    const where: Prisma.PostWhereInput = {
+      ...(options.status && { status: options.status }),
+      ...(options.categoryId && { categoryId: options.categoryId }),
+      ...(options.authorId && { authorId: options.authorId }),
+      ...(options.search && { title: { contains: options.search } }),
+      ...(!viewer.canSeeAll && {
+        OR: [{ status: PostStatus.PUBLISHED }, { authorId: viewer.id }],
+      }),
+    };
+    const orderBy: Prisma.PostOrderByWithRelationInput[] = [
+      ...options.sort.map(({ field, direction }) => ({ [field]: direction })),
+      // Tie-breaker so pages are stable for equal sort values
+      ...(options.sort.some(({ field }) => field === 'id') ? [] : [{ id: 'asc' as const }]),
+    ];
+
+    const [total, posts] = await Promise.all([
+      prisma.post.count({ where }),
+      prisma.post.findMany({
+        where,
+        orderBy,
+        select: postListSelect,
+        skip: (options.page - 1) * options.pageSize,
+        take: options.pageSize,
+      }),
+    ]);
+
+    return { data: posts.map(formatPost), total };
+  }
+
+  async getPostById(id: number) {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: postSelect
+    });
+
+    if (!post) {
+      throw new AppError('Post not found', 404, 'NOT_FOUND');
+    }
+
+    return formatPost(post);
+  }
+
+  async getPostBySlug(slug: string) {
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: postSelect
+    });
+
+    if (!post) {
+      throw new AppError('Post not found', 404, 'NOT_FOUND');
+    }
+
+    return formatPost(post);
+  }
+
+  async recordView(id: number) {
+    await prisma.post.update({
+      where: { id },
+      data: { views: { increment: 1 } }
+    });
+  }
+
+  async createPost(data: CreatePostInput, authorId: number) {
+    await this.assertCategoryExists(data.categoryId);
+
+    const slug = data.slug
+      ? await this.assertSlugAvailable(data.slug)
+      : await this.generateSlug(data.title);
+
+    const post = await prisma.post.create({
+      data: {
+        ...data,
+        slug,
+        authorId,
+        // History starts with the creation of the draft
+        transitions: { create: { toStatus: PostStatus.DRAFT, actorId: authorId } },
+      },
+      select: postSelect
+    });
+
+    logInfo('Post created', { postId: post.id, authorId, status: post.status });
+
+    return formatPost(post);
+  }
+
+  // The slug is kept when the title changes so published links keep working
+  async updatePost(id: number, data: UpdatePostInput) {
+    const existingPost = await prisma.post.findUnique({
+      where: { id }
+    });
+
+    if (!existingPost) {
+      throw new AppError('Post not found', 404, 'NOT_FOUND');
+    }
+
+    if (data.categoryId && data.categoryId !== existingPost.categoryId) {
+      await this.assertCategoryExists(data.categoryId);
+    }
+
+    if (data.slug && data.slug !== existingPost.slug) {
+      await this.assertSlugAvailable(data.slug);
+    }
+
+    const post = await prisma.post.update({
+      where: { id },
+      data,
+      select: postSelect
+    });
+
+    logInfo('Post updated', { postId: id, updates: Object.keys(data) });
+
+    return formatPost(post);
+  }
+
+  async deletePost(id: number) {
+    const existingPost = await prisma.post.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!existingPost) {
+      throw new AppError('Post not found', 404, 'NOT_FOUND');
+    }
+
+    await prisma.post.delete({
+      where: { id }
+    });
+
+    logInfo('Post deleted', { postId: id });
+
+    return { message: 'Post deleted successfully' };
+  }
+
+  private async assertCategoryExists(categoryId: number) {
+    const category = await prisma.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true }
+    });
+
+    if (!category) {
+      throw new AppError(`Category ${categoryId} does not exist`, 400, 'BAD_REQUEST');
+    }
+  }
+
+  private async assertSlugAvailable(slug: string) {
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true }
+    });
+
+    if (post) {
+      throw new AppError('Slug is already in use', 409, 'CONFLICT');
+    }
+
+    return slug;
+  }
+
+  // Slug from the title, numbered when posts with the same title exist
+  private async generateSlug(title: string) {
+    const taken = await prisma.post.findMany({
+      where: { slug: { startsWith: slugify(title) || 'post' } },
+      select: { slug: true }
+    });
+    return pickUniqueSlug(title, taken.map((post) => post.slug), 'post');
+  }
+}
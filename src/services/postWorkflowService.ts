@@ -0,0 +1,150 @@
+import prisma from '../config/database';
+import postConfig from '../config/post';
+import { EDITORIAL_STATUSES, POST_TRANSITIONS, PostStatus } from '../types/post';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import { PostTransitionInput } from '../validations/postValidation';
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+const transitionSelect = {
+  id: true,
+  fromStatus: true,
+  toStatus: true,
+  note: true,
+  actor: { select: { id: true, name: true } },
+  createdAt: true,
+} as const;
+
+// Scheduling sets the publication time, publishing fills it in unless the post was published
+// before (the first date is kept), leaving the schedule clears it
+const nextPublishedAt = (
+  post: { status: string; publishedAt: Date | null },
+  data: PostTransitionInput
+) => {
+  const now = new Date();
+
+  switch (data.status) {
+    case PostStatus.SCHEDULED:
+      return data.publishedAt!;
+    case PostStatus.PUBLISHED:
+      return post.publishedAt && post.publishedAt <= now ? post.publishedAt : now;
+    default:
+      return post.status === PostStatus.SCHEDULED ? null : post.publishedAt;
+  }
+};
+
+export class PostWorkflowService {
+  // Whether moving between the two statuses needs posts:publish on top of editing rights
+  isEditorialTransition(from: string, to: PostStatus) {
+    return EDITORIAL_STATUSES.includes(from as PostStatus) || EDITORIAL_STATUSES.includes(to);
+  }
+
+  // Moves the post along the state machine and records the change, actorId is null for the scheduler
+  async transition(postId: number, data: PostTransitionInput, actorId: number | null) {
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { id: true, status: true, publishedAt: true }
+    });
+
+    if (!post) {
+      throw new AppError('Post not found', 404, 'NOT_FOUND');
+    }
+
+    const allowed = POST_TRANSITIONS[post.status as PostStatus] ?? [];
+    if (!allowed.includes(data.status)) {
+      throw new AppError(
+        `Post cannot move from ${post.status} to ${data.status}` +
+          (allowed.length > 0 ? `, allowed: ${allowed.join(', ')}` : ''),
+        409,
+        'INVALID_TRANSITION'
+      );
+    }
+
+    const publishedAt = nextPublishedAt(post, data);
+
+    // The status guard makes a concurrent transition (or the scheduler) win cleanly
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.post.updateMany({
+        where: { id: postId, status: post.status },
+        data: { status: data.status, publishedAt }
+      });
+
+      if (count === 0) {
+        throw new AppError('Post status changed in the meantime, reload and try again', 409, 'CONFLICT');
+      }
+
+      await tx.postTransition.create({
+        data: {
+          postId,
+          fromStatus: post.status,
+          toStatus: data.status,
+          note: data.note,
+          actorId,
+        }
+      });
+    });
+
+    logInfo('Post status changed', { postId, from: post.status, to: data.status, actorId, publishedAt });
+  }
+
+  async listTransitions(postId: number) {
+    return prisma.postTransition.findMany({
+      where: { postId },
+      select: transitionSelect,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+  }
+
+  async publishDuePosts() {
+    const duePosts = await prisma.post.findMany({
+      where: { status: PostStatus.SCHEDULED, publishedAt: { lte: new Date() } },
+      select: { id: true, publishedAt: true }
+    });
+
+    let published = 0;
+    for (const post of duePosts) {
+      // Skipped when the post was unscheduled, rescheduled or published by hand since the lookup
+      const done = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.post.updateMany({
+          where: { id: post.id, status: PostStatus.SCHEDULED, publishedAt: { lte: new Date() } },
+          data: { status: PostStatus.PUBLISHED }
+        });
+
+        if (count > 0) {
+          await tx.postTransition.create({
+            data: {
+              postId: post.id,
+              fromStatus: PostStatus.SCHEDULED,
+              toStatus: PostStatus.PUBLISHED,
+              note: 'Published on schedule',
+            }
+          });
+        }
+
+        return count > 0;
+      });
+
+      if (done) {
+        published++;
+        logInfo('Scheduled post published', { postId: post.id, publishedAt: post.publishedAt });
+      }
+    }
+
+    return published;
+  }
+
+  // Publishes due posts now and then every POST_SCHEDULER_INTERVAL_SECONDS
+  startSchedulerJob() {
+    if (schedulerTimer) {
+      return;
+    }
+
+    const run = () =>
+      this.publishDuePosts().catch((error) => logError('Error publishing scheduled posts', error));
+
+    run();
+    schedulerTimer = setInterval(run, postConfig.schedulerIntervalSeconds * 1000);
+    schedulerTimer.unref();
+  }
+}
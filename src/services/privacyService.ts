@@ -0,0 +1,215 @@
+import archiver from 'archiver';
+import bcrypt from 'bcryptjs';
+import { basename } from 'path';
+import { unlinkSync } from 'fs';
+import prisma from '../config/database';
+import userConfig from '../config/user';
+import { TokenType } from '../types/token';
+import { AppError } from '../utils/errors';
+import { listUserAvatarFiles } from '../utils/fileUpload';
+import { logError, logInfo, logWarning } from '../utils/logger';
+import { buildAppUrl, sendMail } from '../utils/mailer';
+import { TokenService } from './tokenService';
+
+const tokenService = new TokenService();
+
+let erasureTimer: NodeJS.Timeout | null = null;
+
+export class PrivacyService {
+  // Everything stored about the user, secrets (password, 2FA secret, key hashes) left out
+  async collectUserData(userId: number) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, deletedAt: null },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        avatar: true,
+        role: true,
+        status: true,
+        emailVerifiedAt: true,
+        twoFactorEnabledAt: true,
+        createdAt: true,
+        updatedAt: true,
+        identities: {
+          select: { provider: true, email: true, createdAt: true }
+        },
+        sessions: {
+          select: { userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true, revokedAt: true }
+        },
+        apiKeys: {
+          select: { name: true, prefix: true, scopes: true, createdAt: true, lastUsedAt: true, expiresAt: true, revokedAt: true }
+        },
+        posts: {
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            content: true,
+            excerpt: true,
+            image: true,
+            status: true,
+            views: true,
+            publishedAt: true,
+            createdAt: true,
+            updatedAt: true,
+            category: { select: { name: true } },
+            postTags: { select: { tag: { select: { name: true } } } },
+          }
+        },
+      }
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    const { posts, ...account } = user;
+
+    return {
+      account,
+      posts: posts.map(({ category, postTags, ...post }) => ({
+        ...post,
+        category: category.name,
+        tags: postTags.map((postTag) => postTag.tag.name),
+      })),
+    };
+  }
+
+  // Zip archive with account.json, posts.json and the uploaded avatar files
+  async createExportArchive(userId: number) {
+    const { account, posts } = await this.collectUserData(userId);
+    const exportedAt = new Date().toISOString();
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    archive.append(JSON.stringify({ exportedAt, ...account }, null, 2), { name: 'account.json' });
+    archive.append(JSON.stringify(posts, null, 2), { name: 'posts.json' });
+    for (const filePath of listUserAvatarFiles(userId)) {
+      archive.file(filePath, { name: `avatars/${basename(filePath)}` });
+    }
+    archive.finalize().catch((error) => logError('Error building data export archive', error, { userId }));
+
+    logInfo('User data export created', { userId, posts: posts.length });
+
+    return archive;
+  }
+
+  // Signs the user out and hides the account, it is erased once the grace period is over
+  async requestErasure(userId: number, password: string) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, deletedAt: null }
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    if (!user.password) {
+      throw new AppError('This account has no password, use the password reset flow to set one', 400, 'BAD_REQUEST');
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      throw new AppError('Password is incorrect', 400, 'BAD_REQUEST');
+    }
+
+    const graceDays = userConfig.erasureGraceDays;
+    const erasureScheduledAt = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { deletedAt: new Date(), erasureScheduledAt }
+    });
+
+    await tokenService.revokeAllUserTokens(userId, Object.values(TokenType));
+
+    const token = await tokenService.createOneTimeToken(
+      userId,
+      TokenType.ERASURE_CANCEL,
+      graceDays * 24 * 60 * 60 * 1000
+    );
+    const cancelUrl = buildAppUrl('cancel-erasure', { token });
+
+    try {
+      await sendMail({
+        to: user.email,
+        subject: 'Your account will be deleted',
+        text: `Hi ${user.name || user.email},\n\nYour account and personal data will be permanently deleted on ${erasureScheduledAt.toUTCString()}. Posts you wrote stay published without your name.\n\nChanged your mind? Open the link below before then to keep your account.\n\n${cancelUrl}`,
+      });
+    } catch (error) {
+      logError('Failed to send account erasure email', error, { userId });
+    }
+
+    logWarning('Account erasure requested', { userId, erasureScheduledAt });
+
+    return { message: 'Account scheduled for deletion', erasureScheduledAt };
+  }
+
+  async cancelErasure(token: string) {
+    const cancelToken = await tokenService.consumeOneTimeToken(token, TokenType.ERASURE_CANCEL);
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: cancelToken.userId, erasureScheduledAt: { gt: new Date() } },
+      data: { deletedAt: null, erasureScheduledAt: null }
+    });
+
+    if (count === 0) {
+      throw new AppError('Account deletion can no longer be cancelled', 400, 'BAD_REQUEST');
+    }
+
+    logInfo('Account erasure cancelled', { userId: cancelToken.userId });
+
+    return { message: 'Account deletion cancelled, you can sign in again' };
+  }
+
+  // Removes the account for good, keeping authored posts without an author
+  async eraseUser(userId: number) {
+    const avatarFiles = listUserAvatarFiles(userId);
+
+    await prisma.$transaction([
+      prisma.post.updateMany({
+        where: { authorId: userId },
+        data: { authorId: null }
+      }),
+      prisma.user.delete({
+        where: { id: userId }
+      }),
+    ]);
+
+    for (const filePath of avatarFiles) {
+      try {
+        unlinkSync(filePath);
+      } catch (error) {
+        logError('Failed to remove avatar of erased user', error, { userId, file: basename(filePath) });
+      }
+    }
+
+    logInfo('User account erased', { userId, avatarFiles: avatarFiles.length });
+  }
+
+  async eraseDueAccounts() {
+    const users = await prisma.user.findMany({
+      where: { erasureScheduledAt: { lte: new Date() } },
+      select: { id: true }
+    });
+
+    for (const user of users) {
+      await this.eraseUser(user.id);
+    }
+
+    return users.length;
+  }
+
+  // Erases accounts whose grace period ended, on the same schedule as the retention job
+  startErasureJob() {
+    if (erasureTimer) {
+      return;
+    }
+
+    const run = () =>
+      this.eraseDueAccounts().catch((error) => logError('Error erasing accounts', error));
+
+    run();
+    erasureTimer = setInterval(run, userConfig.retentionIntervalMinutes * 60 * 1000);
+    erasureTimer.unref();
+  }
+}
@@ -0,0 +1,65 @@
+import prisma from '../config/database';
+import { TokenType } from '../types/token';
+import { logInfo } from '../utils/logger';
+import { TokenService } from './tokenService';
+
+const tokenService = new TokenService();
+
+export class SessionService {
+  // Sessions that still hold a usable refresh token
+  async listActiveSessions(userId: number, currentJti?: string) {
+    const activeFamilies = await prisma.token.findMany({
+      where: {
+        userId,
+        type: TokenType.REFRESH,
+        isRevoked: false,
+        expiresAt: { gt: new Date() },
+        familyId: { not: null },
+      },
+      select: { familyId: true },
+      distinct: ['familyId'],
+    });
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        id: { in: activeFamilies.map((token) => token.familyId!) },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    const currentSessionId = currentJti ? await tokenService.getAccessTokenFamilyId(currentJti) : null;
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: number, sessionId: string) {
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId }
+    });
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    await tokenService.revokeFamily(session.id);
+
+    logInfo('Session revoked', { userId, sessionId });
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  async revokeOtherSessions(userId: number, currentJti?: string) {
+    await tokenService.revokeOtherSessions(userId, currentJti);
+
+    return { message: 'Signed out of all other sessions' };
+  }
+}
@@ -0,0 +1,199 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, JsonWebKey, randomBytes } from 'crypto';
+import prisma from '../config/database';
+import authConfig, { assertSigningConfig, getMaxTokenLifetimeSeconds, JwtAlgorithm } from '../config/auth';
+import { logError, logInfo } from '../utils/logger';
+
+interface LoadedKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  createdAt: Date;
+  retiredAt: Date | null;
+  publicKey: string;
+  // Decrypted PEM, only kept in memory
+  privateKey: string;
+  jwk: JsonWebKey;
+}
+
+const config = authConfig.signing;
+
+// Allowance for clocks of other services verifying our tokens
+const CLOCK_SKEW_SECONDS = 60;
+// Unknown kids trigger a reload (key rotated on another instance), at most this often
+const UNKNOWN_KID_RELOAD_INTERVAL_MS = 10 * 1000;
+
+let keys = new Map<string, LoadedKey>();
+let refreshTimer: NodeJS.Timeout | null = null;
+let lastReloadAt = 0;
+
+const generateKeyPair = (algorithm: JwtAlgorithm) => {
+  const encoding = {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: {
+      type: 'pkcs8',
+      format: 'pem',
+      cipher: 'aes-256-cbc',
+      passphrase: config.keyPassphrase,
+    },
+  } as const;
+
+  return algorithm === 'EdDSA'
+    ? generateKeyPairSync('ed25519', encoding)
+    : generateKeyPairSync('rsa', { modulusLength: 2048, ...encoding });
+};
+
+const loadKey = (row: {
+  kid: string;
+  algorithm: string;
+  publicKey: string;
+  privateKey: string;
+  createdAt: Date;
+  retiredAt: Date | null;
+}): LoadedKey => {
+  const cached = keys.get(row.kid);
+  if (cached) {
+    return { ...cached, retiredAt: row.retiredAt };
+  }
+
+  const privateKey = createPrivateKey({ key: row.privateKey, passphrase: config.keyPassphrase })
+    .export({ type: 'pkcs8', format: 'pem' })
+    .toString();
+
+  return {
+    kid: row.kid,
+    algorithm: row.algorithm as JwtAlgorithm,
+    createdAt: row.createdAt,
+    retiredAt: row.retiredAt,
+    publicKey: row.publicKey,
+    privateKey,
+    jwk: createPublicKey(row.publicKey).export({ format: 'jwk' }),
+  };
+};
+
+// Newest key that has not been retired
+const getActiveKey = () => {
+  let active: LoadedKey | null = null;
+  for (const key of keys.values()) {
+    if (!key.retiredAt && (!active || key.createdAt > active.createdAt)) {
+      active = key;
+    }
+  }
+  return active;
+};
+
+const reloadKeys = async () => {
+  const rows = await prisma.signingKey.findMany({
+    where: {
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  keys = new Map(rows.map((row) => [row.kid, loadKey(row)]));
+  lastReloadAt = Date.now();
+};
+
+export class SigningKeyService {
+  // Loads (or creates) signing keys, throws on invalid configuration so startup fails
+  async initialize() {
+    assertSigningConfig();
+    await this.refresh();
+
+    if (!refreshTimer) {
+      refreshTimer = setInterval(() => {
+        this.refresh().catch((err) => logError('Error refreshing JWT signing keys', err));
+      }, config.refreshIntervalMinutes * 60 * 1000);
+      refreshTimer.unref();
+    }
+  }
+
+  // Rotates when the active key is too old or uses another algorithm, and drops expired keys
+  async refresh() {
+    await reloadKeys();
+
+    const active = getActiveKey();
+    const rotationDue =
+      !active ||
+      active.algorithm !== config.algorithm ||
+      Date.now() - active.createdAt.getTime() >= config.rotationDays * 24 * 60 * 60 * 1000;
+
+    if (rotationDue) {
+      await this.rotate();
+    }
+
+    await prisma.signingKey.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    });
+  }
+
+  // Generates a new signing key, previous keys only verify until their last tokens expire.
+  // Other instances keep signing with the retired key until their next refresh, so it is kept
+  // one refresh interval longer than the longest token lifetime
+  async rotate() {
+    const kid = randomBytes(12).toString('base64url');
+    const { publicKey, privateKey } = generateKeyPair(config.algorithm);
+    const now = new Date();
+    const retentionSeconds =
+      getMaxTokenLifetimeSeconds() + config.refreshIntervalMinutes * 60 + CLOCK_SKEW_SECONDS;
+    const expiresAt = new Date(now.getTime() + retentionSeconds * 1000);
+
+    await prisma.$transaction([
+      prisma.signingKey.create({
+        data: { kid, algorithm: config.algorithm, publicKey, privateKey }
+      }),
+      prisma.signingKey.updateMany({
+        where: { kid: { not: kid }, retiredAt: null },
+        data: { retiredAt: now, expiresAt }
+      }),
+    ]);
+
+    await reloadKeys();
+
+    logInfo('JWT signing key rotated', { kid, algorithm: config.algorithm });
+
+    return kid;
+  }
+
+  // Options for fastify.jwt.sign so the token is signed with the active key
+  getSignOptions() {
+    const active = getActiveKey();
+    if (!active) {
+      throw new Error('No JWT signing key available');
+    }
+
+    return {
+      key: active.privateKey,
+      algorithm: active.algorithm,
+      kid: active.kid,
+    };
+  }
+
+  async getVerificationKey(kid?: string) {
+    if (!kid) {
+      throw new Error('Token has no key id');
+    }
+
+    let key = keys.get(kid);
+    if (!key && Date.now() - lastReloadAt > UNKNOWN_KID_RELOAD_INTERVAL_MS) {
+      await reloadKeys();
+      key = keys.get(kid);
+    }
+
+    if (!key) {
+      throw new Error('Unknown token signing key');
+    }
+
+    return key.publicKey;
+  }
+
+  // Public keys of every key that may still have valid tokens
+  getJwks() {
+    return {
+      keys: Array.from(keys.values()).map((key) => ({
+        ...key.jwk,
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+}
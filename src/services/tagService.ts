@@ -0,0 +1,187 @@
+import prisma from '../config/database';
+import { AppError } from '../utils/errors';
+import { logInfo } from '../utils/logger';
+import { pickUniqueSlug, slugify } from '../utils/slug';
+import { CreateTagInput, UpdateTagInput } from '../validations/tagValidation';
+
+// Length of the slug column
+const SLUG_LENGTH = 100;
+
+const tagSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  _count: { select: { postTags: true } },
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const formatTag = <T extends { _count: { postTags: number } }>({ _count, ...tag }: T) => ({
+  ...tag,
+  postCount: _count.postTags,
+});
+
+// Names compare case-insensitively like the database collation, the first spelling wins
+const uniqueNames = (names: string[]) => {
+  const seen = new Map<string, string>();
+  for (const name of names) {
+    if (!seen.has(name.toLowerCase())) {
+      seen.set(name.toLowerCase(), name);
+    }
+  }
+  return [...seen.values()];
+};
+
+export class TagService {
+  async listTags() {
+    const tags = await prisma.tag.findMany({
+      select: tagSelect,
+      orderBy: { name: 'asc' }
+    });
+    return tags.map(formatTag);
+  }
+
+  async getTagById(id: number) {
+    const tag = await prisma.tag.findUnique({
+      where: { id },
+      select: tagSelect
+    });
+
+    if (!tag) {
+      throw new AppError('Tag not found', 404, 'NOT_FOUND');
+    }
+
+    return formatTag(tag);
+  }
+
+  async createTag(data: CreateTagInput) {
+    await this.assertNameAvailable(data.name);
+
+    const slug = data.slug
+      ? await this.assertSlugAvailable(data.slug)
+      : await this.generateSlug(data.name);
+
+    const tag = await prisma.tag.create({
+      data: { name: data.name, slug },
+      select: tagSelect
+    });
+
+    logInfo('Tag created', { tagId: tag.id, slug });
+
+    return formatTag(tag);
+  }
+
+  // The slug is kept when the name changes so existing links keep working
+  async updateTag(id: number, data: UpdateTagInput) {
+    const existingTag = await this.getTagById(id);
+
+    if (data.name && data.name !== existingTag.name) {
+      await this.assertNameAvailable(data.name, id);
+    }
+
+    if (data.slug && data.slug !== existingTag.slug) {
+      await this.assertSlugAvailable(data.slug);
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data,
+      select: tagSelect
+    });
+
+    logInfo('Tag updated', { tagId: id, updates: Object.keys(data) });
+
+    return formatTag(tag);
+  }
+
+  // Removes the tag from every post it is attached to
+  async deleteTag(id: number) {
+    const tag = await this.getTagById(id);
+
+    await prisma.$transaction([
+      prisma.postTag.deleteMany({
+        where: { tagId: id }
+      }),
+      prisma.tag.delete({
+        where: { id }
+      }),
+    ]);
+
+    logInfo('Tag deleted', { tagId: id, detachedPosts: tag.postCount });
+
+    return { message: 'Tag deleted successfully' };
+  }
+
+  // Attaches tags by name, names without a tag yet are created on the way
+  async attachTags(postId: number, names: string[]) {
+    const requested = uniqueNames(names);
+    const existingTags = await prisma.tag.findMany({
+      where: { name: { in: requested } },
+      select: { id: true, name: true }
+    });
+    const existingNames = new Set(existingTags.map((tag) => tag.name.toLowerCase()));
+
+    const createdTags: { id: number; name: string }[] = [];
+    for (const name of requested.filter((name) => !existingNames.has(name.toLowerCase()))) {
+      createdTags.push(
+        await prisma.tag.create({
+          data: { name, slug: await this.generateSlug(name) },
+          select: { id: true, name: true }
+        })
+      );
+    }
+
+    await prisma.postTag.createMany({
+      data: [...existingTags, ...createdTags].map((tag) => ({ postId, tagId: tag.id })),
+      skipDuplicates: true
+    });
+
+    logInfo('Tags attached to post', { postId, tags: requested, created: createdTags.map((tag) => tag.name) });
+  }
+
+  // Unknown names and tags that are not attached are ignored
+  async detachTags(postId: number, names: string[]) {
+    const tags = await prisma.tag.findMany({
+      where: { name: { in: uniqueNames(names) } },
+      select: { id: true }
+    });
+
+    const { count } = await prisma.postTag.deleteMany({
+      where: { postId, tagId: { in: tags.map((tag) => tag.id) } }
+    });
+
+    logInfo('Tags detached from post', { postId, detached: count });
+  }
+
+  private async assertNameAvailable(name: string, exceptId?: number) {
+    const tag = await prisma.tag.findUnique({
+      where: { name },
+      select: { id: true }
+    });
+
+    if (tag && tag.id !== exceptId) {
+      throw new AppError('Tag with this name already exists', 409, 'CONFLICT');
+    }
+  }
+
+  private async assertSlugAvailable(slug: string) {
+    const tag = await prisma.tag.findUnique({
+      where: { slug },
+      select: { id: true }
+    });
+
+    if (tag) {
+      throw new AppError('Slug is already in use', 409, 'CONFLICT');
+    }
+
+    return slug;
+  }
+
+  private async generateSlug(name: string) {
+    const taken = await prisma.tag.findMany({
+      where: { slug: { startsWith: slugify(name, SLUG_LENGTH) || 'tag' } },
+      select: { slug: true }
+    });
+    return pickUniqueSlug(name, taken.map((tag) => tag.slug), 'tag', SLUG_LENGTH);
+  }
+}
@@ -0,0 +1,415 @@
+import { FastifyInstance } from 'fastify';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import { ActorClaim } from '../types';
+import { AuthTokens, ClientInfo, TokenType, SESSION_TOKEN_TYPES } from '../types/token';
+import { logInfo, logWarning } from '../utils/logger';
+import { PermissionService } from './permissionService';
+import { SigningKeyService } from './signingKeyService';
+
+const signingKeyService = new SigningKeyService();
+const permissionService = new PermissionService();
+
+// Only a hash of opaque tokens is persisted, so a database leak does not expose usable tokens
+export const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+const generateOpaqueToken = () => randomBytes(48).toString('base64url');
+
+interface RevocationCacheEntry {
+  revoked: boolean;
+  userId?: number;
+  familyId?: string | null;
+  cachedUntil: number;
+}
+
+// In-process cache of access token revocation lookups, keyed by jti
+const revocationCache = new Map<string, RevocationCacheEntry>();
+const MAX_REVOCATION_CACHE_SIZE = 10000;
+
+const pruneRevocationCache = () => {
+  const now = Date.now();
+  for (const [jti, entry] of revocationCache) {
+    if (entry.cachedUntil <= now) {
+      revocationCache.delete(jti);
+    }
+  }
+  // Still too big: drop the oldest entries (Map keeps insertion order)
+  while (revocationCache.size >= MAX_REVOCATION_CACHE_SIZE) {
+    const oldest = revocationCache.keys().next().value;
+    if (oldest === undefined) break;
+    revocationCache.delete(oldest);
+  }
+};
+
+// Last time each session's lastSeenAt was written, keyed by familyId
+const sessionTouches = new Map<string, number>();
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+const markCachedAsRevoked = (predicate: (entry: RevocationCacheEntry) => boolean) => {
+  for (const entry of revocationCache.values()) {
+    if (predicate(entry)) {
+      entry.revoked = true;
+    }
+  }
+};
+
+export class TokenService {
+  async issueAuthTokens(
+    fastify: FastifyInstance,
+    user: Pick<User, 'id' | 'email' | 'name' | 'role'> & Partial<Pick<User, 'twoFactorEnabledAt'>>,
+    client: ClientInfo = {},
+    existingFamilyId?: string
+  ): Promise<AuthTokens> {
+    // A new family means a new login, which gets its own session record
+    const familyId = existingFamilyId ?? randomUUID();
+    await prisma.session.upsert({
+      where: { id: familyId },
+      create: {
+        id: familyId,
+        userId: user.id,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+      },
+      update: {
+        lastSeenAt: new Date(),
+        ...(client.userAgent && { userAgent: client.userAgent }),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      },
+    });
+
+    const jti = randomUUID();
+    const token = fastify.jwt.sign(
+      {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        permissions: await permissionService.getRolePermissions(user.role),
+        // Users with 2FA enabled can only get a session by passing the second factor
+        mfa: Boolean(user.twoFactorEnabledAt),
+      },
+      { ...signingKeyService.getSignOptions(), expiresIn: authConfig.accessTokenExpiresIn, jti }
+    );
+
+    // Track the access token so it can be revoked before it expires
+    const { exp } = fastify.jwt.decode<{ exp: number }>(token, { complete: false })!;
+    await prisma.token.create({
+      data: {
+        token: jti,
+        type: TokenType.ACCESS,
+        familyId,
+        userId: user.id,
+        expiresAt: new Date(exp * 1000),
+      },
+    });
+
+    const refreshToken = generateOpaqueToken();
+    const expiresAt = new Date(
+      Date.now() + authConfig.refreshTokenExpiresInDays * 24 * 60 * 60 * 1000
+    );
+
+    await prisma.token.create({
+      data: {
+        token: hashToken(refreshToken),
+        type: TokenType.REFRESH,
+        familyId,
+        userId: user.id,
+        expiresAt,
+      },
+    });
+
+    return {
+      token,
+      refreshToken,
+      expiresIn: authConfig.accessTokenExpiresIn,
+    };
+  }
+
+  // Short-lived token for the target user carrying the admin in the act claim, no refresh token
+  async issueImpersonationToken(
+    fastify: FastifyInstance,
+    user: Pick<User, 'id' | 'email' | 'name' | 'role'>,
+    actor: ActorClaim
+  ) {
+    const jti = randomUUID();
+    const expiresInMinutes = authConfig.impersonationExpiresInMinutes;
+    const token = fastify.jwt.sign(
+      {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        permissions: await permissionService.getRolePermissions(user.role),
+        act: { id: actor.id, email: actor.email },
+      },
+      { ...signingKeyService.getSignOptions(), expiresIn: `${expiresInMinutes}m`, jti }
+    );
+
+    // Not part of any session family, but still revocable like every access token
+    await prisma.token.create({
+      data: {
+        token: jti,
+        type: TokenType.ACCESS,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      },
+    });
+
+    return {
+      token,
+      expiresIn: `${expiresInMinutes}m`,
+    };
+  }
+
+  async rotateRefreshToken(fastify: FastifyInstance, refreshToken: string, client: ClientInfo = {}) {
+    const storedToken = await prisma.token.findUnique({
+      where: { token: hashToken(refreshToken) },
+      include: { user: true },
+    });
+
+    if (!storedToken || storedToken.type !== TokenType.REFRESH) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (storedToken.isRevoked) {
+      // A revoked refresh token being presented again means it was copied:
+      // kill the whole session so neither party can keep using it
+      logWarning('Refresh token reuse detected, revoking token family', {
+        userId: storedToken.userId,
+        familyId: storedToken.familyId,
+      });
+      if (storedToken.familyId) {
+        await this.revokeFamily(storedToken.familyId);
+      }
+      throw new Error('Refresh token has been revoked');
+    }
+
+    if (storedToken.expiresAt < new Date()) {
+      throw new Error('Refresh token has expired');
+    }
+
+    // Guard against two concurrent refreshes with the same token
+    const { count } = await prisma.token.updateMany({
+      where: { id: storedToken.id, isRevoked: false },
+      data: { isRevoked: true },
+    });
+
+    if (count === 0) {
+      throw new Error('Refresh token has been revoked');
+    }
+
+    const { password, twoFactorSecret, twoFactorLastUsedStep, ...user } = storedToken.user;
+    const tokens = await this.issueAuthTokens(
+      fastify,
+      user,
+      client,
+      storedToken.familyId ?? undefined
+    );
+
+    logInfo('Refresh token rotated', { userId: user.id, familyId: storedToken.familyId });
+
+    return { ...tokens, user };
+  }
+
+  async revokeRefreshToken(refreshToken: string) {
+    const storedToken = await prisma.token.findUnique({
+      where: { token: hashToken(refreshToken) },
+    });
+
+    if (!storedToken || storedToken.type !== TokenType.REFRESH) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (storedToken.familyId) {
+      await this.revokeFamily(storedToken.familyId);
+    } else {
+      await prisma.token.update({
+        where: { id: storedToken.id },
+        data: { isRevoked: true },
+      });
+    }
+
+    return { userId: storedToken.userId };
+  }
+
+  async isAccessTokenRevoked(jti: string) {
+    const cached = revocationCache.get(jti);
+    if (cached && cached.cachedUntil > Date.now()) {
+      return cached.revoked;
+    }
+
+    const storedToken = await prisma.token.findUnique({
+      where: { token: jti },
+    });
+
+    // Unknown jti (e.g. user deleted) is treated the same as a revoked one
+    const revoked =
+      !storedToken ||
+      storedToken.type !== TokenType.ACCESS ||
+      storedToken.isRevoked;
+
+    if (revocationCache.size >= MAX_REVOCATION_CACHE_SIZE) {
+      pruneRevocationCache();
+    }
+    revocationCache.set(jti, {
+      revoked,
+      userId: storedToken?.userId,
+      familyId: storedToken?.familyId,
+      cachedUntil: Date.now() + authConfig.revocationCacheTtlSeconds * 1000,
+    });
+
+    return revoked;
+  }
+
+  // Session (token family) an access token belongs to, from the revocation cache when possible
+  async getAccessTokenFamilyId(jti: string) {
+    const cached = revocationCache.get(jti);
+    if (cached && cached.cachedUntil > Date.now()) {
+      return cached.familyId ?? null;
+    }
+
+    const storedToken = await prisma.token.findUnique({
+      where: { token: jti },
+    });
+    return storedToken?.familyId ?? null;
+  }
+
+  // Records activity on a session, written at most once per interval per session
+  async touchSession(familyId: string, client: ClientInfo = {}) {
+    const now = Date.now();
+    const lastTouched = sessionTouches.get(familyId);
+    if (lastTouched && now - lastTouched < SESSION_TOUCH_INTERVAL_MS) {
+      return;
+    }
+
+    if (sessionTouches.size >= MAX_REVOCATION_CACHE_SIZE) {
+      sessionTouches.clear();
+    }
+    sessionTouches.set(familyId, now);
+
+    await prisma.session.updateMany({
+      where: { id: familyId, revokedAt: null },
+      data: {
+        lastSeenAt: new Date(now),
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      },
+    });
+  }
+
+  async revokeFamily(familyId: string) {
+    await prisma.token.updateMany({
+      where: { familyId, isRevoked: false },
+      data: { isRevoked: true },
+    });
+    await prisma.session.updateMany({
+      where: { id: familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    markCachedAsRevoked((entry) => entry.familyId === familyId);
+  }
+
+  async revokeAllUserTokens(userId: number, types: TokenType[] = SESSION_TOKEN_TYPES) {
+    await prisma.token.updateMany({
+      where: { userId, type: { in: types }, isRevoked: false },
+      data: { isRevoked: true },
+    });
+    if (types.includes(TokenType.REFRESH)) {
+      await prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+    }
+    markCachedAsRevoked((entry) => entry.userId === userId);
+
+    logInfo('Revoked all tokens for user', { userId, types });
+  }
+
+  // Revoke every session of the user except the one the given access token belongs to
+  async revokeOtherSessions(userId: number, currentJti?: string) {
+    const currentToken = currentJti
+      ? await prisma.token.findUnique({ where: { token: currentJti } })
+      : null;
+    const currentFamilyId = currentToken?.userId === userId ? currentToken.familyId : null;
+
+    if (!currentFamilyId) {
+      return this.revokeAllUserTokens(userId);
+    }
+
+    await prisma.token.updateMany({
+      where: {
+        userId,
+        type: { in: SESSION_TOKEN_TYPES },
+        isRevoked: false,
+        OR: [{ familyId: null }, { familyId: { not: currentFamilyId } }],
+      },
+      data: { isRevoked: true },
+    });
+    await prisma.session.updateMany({
+      where: { userId, revokedAt: null, id: { not: currentFamilyId } },
+      data: { revokedAt: new Date() },
+    });
+    markCachedAsRevoked(
+      (entry) => entry.userId === userId && entry.familyId !== currentFamilyId
+    );
+
+    logInfo('Revoked other sessions for user', { userId });
+  }
+
+  // Single-use tokens (password reset, email verification, ...) sent to the user out of band
+  async createOneTimeToken(userId: number, type: TokenType, expiresInMs: number) {
+    // Only the most recent link of a given type stays valid
+    await prisma.token.updateMany({
+      where: { userId, type, isRevoked: false },
+      data: { isRevoked: true },
+    });
+
+    const rawToken = generateOpaqueToken();
+    await prisma.token.create({
+      data: {
+        token: hashToken(rawToken),
+        type,
+        userId,
+        expiresAt: new Date(Date.now() + expiresInMs),
+      },
+    });
+
+    return rawToken;
+  }
+
+  // Looks up a one-time token without redeeming it
+  async findOneTimeToken(rawToken: string, type: TokenType) {
+    const storedToken = await prisma.token.findUnique({
+      where: { token: hashToken(rawToken) },
+    });
+
+    if (
+      !storedToken ||
+      storedToken.type !== type ||
+      storedToken.isRevoked ||
+      storedToken.expiresAt < new Date()
+    ) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return storedToken;
+  }
+
+  async consumeOneTimeToken(rawToken: string, type: TokenType) {
+    const storedToken = await this.findOneTimeToken(rawToken, type);
+
+    // Conditional update so the same token cannot be redeemed twice concurrently
+    const { count } = await prisma.token.updateMany({
+      where: { id: storedToken.id, isRevoked: false },
+      data: { isRevoked: true },
+    });
+
+    if (count === 0) {
+      throw new Error('Invalid or expired token');
+    }
+
+    return storedToken;
+  }
+}
@@ -0,0 +1,244 @@
+import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import { TokenType } from '../types/token';
+import { logInfo, logWarning } from '../utils/logger';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { TokenService, hashToken } from './tokenService';
+import { LoginThrottleService } from './loginThrottleService';
+
+const tokenService = new TokenService();
+const loginThrottle = new LoginThrottleService();
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/[\s-]/g, '');
+
+// Formatted as xxxxxx-xxxxxx for readability, the dash is ignored when redeeming
+const generateRecoveryCode = () => {
+  const code = randomBytes(6).toString('hex');
+  return `${code.slice(0, 6)}-${code.slice(6)}`;
+};
+
+export class TwoFactorService {
+  async setup(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // Pending until confirmed with a valid code, so a stale setup is simply overwritten
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret, twoFactorLastUsedStep: null }
+    });
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, authConfig.twoFactor.issuer);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    logInfo('Two-factor setup started', { userId });
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  async confirm(userId: number, code: string, currentJti?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastUsedStep: step }
+    });
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    // Sessions opened with only a password must not outlive the switch to 2FA
+    await tokenService.revokeOtherSessions(userId, currentJti);
+
+    logInfo('Two-factor authentication enabled', { userId });
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: number, password: string, code: string, currentJti?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    // Accounts without a password (identity provider only) rely on the code alone
+    if (user.password && !(await bcrypt.compare(password, user.password))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastUsedStep: null }
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({
+        where: { userId }
+      })
+    ]);
+
+    await tokenService.revokeOtherSessions(userId, currentJti);
+
+    logInfo('Two-factor authentication disabled', { userId });
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user?.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+    logInfo('Two-factor recovery codes regenerated', { userId });
+
+    return { recoveryCodes };
+  }
+
+  // Accepts either a current TOTP code or an unused recovery code
+  async verifyCode(userId: number, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      // Each code may only be used once, even inside its validity window
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }]
+        },
+        data: { twoFactorLastUsedStep: step }
+      });
+      return count > 0;
+    }
+
+    const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (count > 0) {
+      logWarning('Two-factor recovery code used', { userId });
+      return true;
+    }
+
+    return false;
+  }
+
+  async createLoginChallenge(userId: number) {
+    const expiresInSeconds = authConfig.twoFactor.challengeExpiresInSeconds;
+    const challengeToken = await tokenService.createOneTimeToken(
+      userId,
+      TokenType.TWO_FACTOR_CHALLENGE,
+      expiresInSeconds * 1000
+    );
+
+    return {
+      twoFactorRequired: true as const,
+      challengeToken,
+      challengeExpiresIn: expiresInSeconds,
+    };
+  }
+
+  // Exchanges a login challenge and a valid code for the user, counting wrong codes as failed logins
+  async completeLoginChallenge(challengeToken: string, code: string, ip?: string) {
+    const challenge = await tokenService.findOneTimeToken(challengeToken, TokenType.TWO_FACTOR_CHALLENGE);
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await loginThrottle.beforeAttempt(user.email, ip);
+
+    if (!(await this.verifyCode(user.id, code))) {
+      await loginThrottle.recordFailure(user.email, ip);
+      throw new Error('Invalid two-factor code');
+    }
+
+    await tokenService.consumeOneTimeToken(challengeToken, TokenType.TWO_FACTOR_CHALLENGE);
+    await loginThrottle.recordSuccess(user.email, ip);
+
+    const { password, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutSecrets } = user;
+    return userWithoutSecrets;
+  }
+
+  private async replaceRecoveryCodes(userId: number) {
+    const recoveryCodes = Array.from(
+      { length: authConfig.twoFactor.recoveryCodeCount },
+      generateRecoveryCode
+    );
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({
+        where: { userId }
+      }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((code) => ({
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(code))
+        }))
+      })
+    ]);
+
+    return recoveryCodes;
+  }
+}
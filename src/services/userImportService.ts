@@ -0,0 +1,302 @@
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import prisma from '../config/database';
+import userConfig from '../config/user';
+import { SystemRole } from '../types/permission';
+import { UserStatus } from '../types/user';
+import { parseCsvRecords } from '../utils/csv';
+import { AppError } from '../utils/errors';
+import { logError, logInfo } from '../utils/logger';
+import { createUserSchema, importInvitedUserSchema } from '../validations/userValidation';
+import { InvitationService } from './invitationService';
+import { PermissionService } from './permissionService';
+import { UserService } from './userService';
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportOptions {
+  dryRun: boolean;
+  invite: boolean;
+  // Rows may only assign roles other than USER when the caller holds roles:manage
+  canAssignRoles: boolean;
+  // Existing users are only updated when the caller holds every permission of their role
+  actorRole: string;
+  invitedById: number;
+}
+
+interface RowError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  // 1-based position of the record in the file, not counting the CSV header
+  row: number;
+  email: string | null;
+  action: 'create' | 'update' | 'skip';
+  errors?: RowError[];
+  invited?: boolean;
+}
+
+interface ValidRow {
+  result: ImportRowResult;
+  email: string;
+  name: string;
+  avatar?: string;
+  // Only set when the file provides a role, existing users keep theirs otherwise
+  role?: string;
+  // Only used for new users, an import never changes the password of an existing one
+  password?: string;
+}
+
+const permissionService = new PermissionService();
+const invitationService = new InvitationService();
+const userService = new UserService();
+
+// Format of an uploaded file when the caller did not name one
+export const detectImportFormat = (filename: string, mimetype: string): ImportFormat | null => {
+  if (filename.toLowerCase().endsWith('.csv') || mimetype === 'text/csv') {
+    return 'csv';
+  }
+  if (filename.toLowerCase().endsWith('.json') || mimetype === 'application/json') {
+    return 'json';
+  }
+  return null;
+};
+
+const toRecords = (content: string, format: ImportFormat): unknown[] => {
+  if (format === 'csv') {
+    return parseCsvRecords(content);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new AppError('File is not valid JSON', 400, 'BAD_REQUEST');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new AppError('JSON import must be an array of users', 400, 'BAD_REQUEST');
+  }
+
+  return parsed;
+};
+
+// Empty CSV cells mean "not provided", so optional fields fall back to their defaults
+const normalizeRecord = (record: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(record)
+      .map(([key, value]) => [key.trim(), typeof value === 'string' && key.trim() !== 'password' ? value.trim() : value])
+      .filter(([, value]) => value !== '' && value !== null && value !== undefined)
+  );
+
+const toRowErrors = (error: z.ZodError): RowError[] =>
+  error.errors.map((err) => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class UserImportService {
+  // Validates every record, then upserts the valid ones by email unless this is a dry run
+  async importUsers(content: string, format: ImportFormat, options: ImportOptions) {
+    const records = toRecords(content, format);
+
+    if (records.length === 0) {
+      throw new AppError('Import file contains no users', 400, 'BAD_REQUEST');
+    }
+
+    if (records.length > userConfig.import.maxRows) {
+      throw new AppError(`Import is limited to ${userConfig.import.maxRows} users per file`, 400, 'BAD_REQUEST');
+    }
+
+    const results: ImportRowResult[] = [];
+    const validRows: ValidRow[] = [];
+    const seenEmails = new Set<string>();
+
+    records.forEach((record, index) => {
+      const result: ImportRowResult = { row: index + 1, email: null, action: 'skip' };
+      results.push(result);
+
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        result.errors = [{ field: '', message: 'Row must be an object' }];
+        return;
+      }
+
+      const data = normalizeRecord(record as Record<string, unknown>);
+      result.email = typeof data.email === 'string' ? data.email : null;
+
+      const withoutPassword = options.invite && data.password === undefined;
+      const parsed = withoutPassword
+        ? importInvitedUserSchema.safeParse(data)
+        : createUserSchema.safeParse(data);
+
+      if (!parsed.success) {
+        result.errors = toRowErrors(parsed.error);
+        return;
+      }
+
+      // Emails compare case-insensitively, like the database collation
+      const emailKey = parsed.data.email.toLowerCase();
+      if (seenEmails.has(emailKey)) {
+        result.errors = [{ field: 'email', message: 'Email appears more than once in the file' }];
+        return;
+      }
+      seenEmails.add(emailKey);
+
+      validRows.push({
+        result,
+        email: parsed.data.email,
+        name: parsed.data.name,
+        avatar: parsed.data.avatar,
+        role: data.role === undefined ? undefined : parsed.data.role,
+        password: 'password' in parsed.data ? String(parsed.data.password) : undefined,
+      });
+    });
+
+    await this.checkAgainstDatabase(validRows, options);
+
+    const importable = validRows.filter((row) => !row.result.errors);
+
+    if (!options.dryRun) {
+      await this.writeRows(importable, options);
+    }
+
+    const summary = {
+      dryRun: options.dryRun,
+      total: results.length,
+      created: importable.filter((row) => row.result.action === 'create').length,
+      updated: importable.filter((row) => row.result.action === 'update').length,
+      failed: results.filter((result) => result.errors).length,
+      invited: results.filter((result) => result.invited).length,
+      rows: results,
+    };
+
+    logInfo('User import finished', { ...summary, rows: undefined, format });
+
+    return summary;
+  }
+
+  // Decides create or update per row and rejects rows the database or the caller does not allow
+  private async checkAgainstDatabase(rows: ValidRow[], options: ImportOptions) {
+    const roles = [...new Set(rows.map((row) => row.role).filter((role): role is string => Boolean(role)))];
+    const [existingRoles, existingUsers] = await Promise.all([
+      prisma.role.findMany({
+        where: { name: { in: roles } },
+        select: { name: true }
+      }),
+      prisma.user.findMany({
+        where: { email: { in: rows.map((row) => row.email) } },
+        select: { email: true, role: true, deletedAt: true }
+      }),
+    ]);
+    const roleNames = new Set(existingRoles.map((role) => role.name));
+    const usersByEmail = new Map(existingUsers.map((user) => [user.email.toLowerCase(), user]));
+
+    for (const row of rows) {
+      const existingUser = usersByEmail.get(row.email.toLowerCase());
+      const errors: RowError[] = [];
+
+      if (existingUser?.deletedAt) {
+        errors.push({ field: 'email', message: 'A deleted user with this email exists, restore it instead' });
+      }
+
+      // Same rule as managing the user directly, nobody edits accounts above their own
+      if (existingUser && !(await permissionService.canManageRole(options.actorRole, existingUser.role))) {
+        errors.push({ field: 'email', message: 'You cannot manage a user with more privileges than your own' });
+      }
+
+      if (row.role && !roleNames.has(row.role)) {
+        errors.push({ field: 'role', message: `Role ${row.role} does not exist` });
+      }
+
+      // Roles of existing accounts are changed one user at a time, never in bulk
+      if (existingUser && row.role !== undefined && row.role !== existingUser.role) {
+        errors.push({ field: 'role', message: 'Roles of existing users cannot be changed by an import' });
+      } else if (!existingUser && row.role !== undefined && row.role !== SystemRole.USER && !options.canAssignRoles) {
+        errors.push({ field: 'role', message: 'Missing required permission: roles:manage' });
+      }
+
+      if (errors.length > 0) {
+        row.result.errors = errors;
+        continue;
+      }
+
+      row.result.action = existingUser ? 'update' : 'create';
+    }
+  }
+
+  private async writeRows(rows: ValidRow[], options: ImportOptions) {
+    for (const batch of chunk(rows, userConfig.import.batchSize)) {
+      const hashedPasswords = await Promise.all(
+        batch.map((row) =>
+          row.password && row.result.action === 'create' ? bcrypt.hash(row.password, 10) : Promise.resolve(null)
+        )
+      );
+
+      const users = await prisma.$transaction(
+        batch.map((row, index) =>
+          prisma.user.upsert({
+            where: { email: row.email },
+            create: {
+              email: row.email,
+              name: row.name,
+              avatar: row.avatar,
+              role: row.role ?? SystemRole.USER,
+              password: hashedPasswords[index],
+              // Invited users stay pending until they accept and choose a password
+              ...(!row.password && {
+                status: UserStatus.PENDING,
+                statusReason: 'Invitation not accepted yet',
+                statusChangedAt: new Date(),
+              }),
+            },
+            // Password and role of existing users are left alone
+            update: {
+              name: row.name,
+              ...(row.avatar && { avatar: row.avatar }),
+            },
+            select: { id: true, email: true, name: true }
+          })
+        )
+      );
+
+      for (const [index, row] of batch.entries()) {
+        const user = users[index];
+
+        if (options.invite && row.result.action === 'create' && !row.password) {
+          row.result.invited = await this.sendInvitation(user, options.invitedById);
+        } else if (row.result.action === 'create') {
+          await this.sendVerificationEmail(user.id);
+        }
+      }
+    }
+  }
+
+  // Imported addresses are unconfirmed, a failed mail can be resent by the user
+  private async sendVerificationEmail(userId: number) {
+    try {
+      await userService.sendVerificationEmail(userId);
+    } catch (error) {
+      logError('Failed to send import verification email', error, { userId });
+    }
+  }
+
+  private async sendInvitation(user: { id: number; email: string; name: string | null }, invitedById: number) {
+    try {
+      await invitationService.sendInvitation(user, invitedById);
+      return true;
+    } catch (error) {
+      logError('Failed to send import invitation', error, { userId: user.id });
+      return false;
+    }
+  }
+}
@@ -1,16 +1,99 @@
 import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { CreateUserRequest, UpdateUserRequest, LoginRequest } from '../types';
-import { logError, logInfo } from '../utils/logger';
+import authConfig from '../config/auth';
+import userConfig from '../config/user';
+import { TokenType, SESSION_TOKEN_TYPES } from '../types/token';
+import { ListUsersOptions } from '../validations/userValidation';
+import { SystemRole } from '../types/permission';
+import { AppError } from '../utils/errors';
+import { logError, logInfo, logWarning } from '../utils/logger';
+import { deleteAvatarFile } from '../utils/fileUpload';
+import { buildAppUrl, sendMail } from '../utils/mailer';
+import { TokenService } from './tokenService';
+import { LoginThrottleService } from './loginThrottleService';
+import { PermissionService } from './permissionService';
+import { UserStatusService } from './userStatusService';
+
+const tokenService = new TokenService();
+const loginThrottle = new LoginThrottleService();
+const permissionService = new PermissionService();
+const userStatusService = new UserStatusService();
+
+let retentionTimer: NodeJS.Timeout | null = null;
+
+// Public user fields, never includes the password hash
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  avatar: true,
+  role: true,
+  status: true,
+  statusReason: true,
+  suspendedUntil: true,
+  emailVerifiedAt: true,
+  pendingEmail: true,
+  twoFactorEnabledAt: true,
+  deletedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Cursors are opaque to clients so the format can change later
+const encodeCursor = (id: number) => Buffer.from(String(id)).toString('base64url');
+
+const decodeCursor = (cursor: string) => {
+  const id = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError('Invalid cursor', 400, 'BAD_REQUEST');
+  }
+  return id;
+};
+
+// Filters shared by the user list and anything else that selects users the same way
+export const buildUserFilter = (
+  options: Pick<ListUsersOptions, 'role' | 'status' | 'email' | 'name' | 'createdFrom' | 'createdTo' | 'deleted'>
+): Prisma.UserWhereInput => ({
+  // Soft-deleted users only show up when explicitly asked for
+  deletedAt: options.deleted ? { not: null } : null,
+  ...(options.role && { role: options.role }),
+  ...(options.status && { status: options.status }),
+  ...(options.email && { email: { contains: options.email } }),
+  ...(options.name && { name: { contains: options.name } }),
+  ...((options.createdFrom || options.createdTo) && {
+    createdAt: {
+      ...(options.createdFrom && { gte: options.createdFrom }),
+      ...(options.createdTo && { lte: options.createdTo }),
+    },
+  }),
+});
+
+// Accounts older than EMAIL_VERIFICATION_REQUIRED_SINCE never got a verification link, they pass as verified
+export const hasVerifiedEmail = (user: { emailVerifiedAt: Date | null; createdAt: Date }) => {
+  const requiredSince = authConfig.emailVerificationRequiredSince;
+  return Boolean(user.emailVerifiedAt) || (requiredSince !== null && user.createdAt < requiredSince);
+};
 
 export class UserService {
-  async createUser(data: CreateUserRequest) {
+  // Only admins learn that the email belongs to a deleted account, public registration must not
+  // reveal which accounts were deleted or are waiting for erasure
+  async createUser(data: CreateUserRequest, options: { revealDeleted?: boolean } = {}) {
     const existingUser = await prisma.user.findUnique({
       where: { email: data.email }
     });
 
     if (existingUser) {
-      throw new Error('User with this email already exists');
+      throw new Error(
+        existingUser.deletedAt && options.revealDeleted
+          ? 'A deleted user with this email exists, restore it instead'
+          : 'User with this email already exists'
+      );
+    }
+
+    if (data.role && !(await permissionService.roleExists(data.role))) {
+      throw new Error(`Role ${data.role} does not exist`);
     }
 
     const hashedPassword = await bcrypt.hash(data.password, 10);
@@ -20,46 +103,84 @@ export class UserService {
         ...data,
         password: hashedPassword,
       },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        avatar: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-      }
+      select: userSelect
     });
 
     return user;
   }
 
-  async getAllUsers() {
-    return await prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        avatar: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
+  // Page or cursor based listing, see listUsersQuerySchema for the options
+  async listUsers(options: ListUsersOptions) {
+    const where = buildUserFilter(options);
+    const orderBy: Prisma.UserOrderByWithRelationInput[] = [
+      ...options.sort.map(({ field, direction }) => ({ [field]: direction })),
+      // Tie-breaker so pages and cursors are stable for equal sort values
+      ...(options.sort.some(({ field }) => field === 'id') ? [] : [{ id: 'asc' as const }]),
+    ];
+    const cursorId = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const backwards = Boolean(cursorId) && options.direction === 'prev';
+
+    const [total, rows] = await Promise.all([
+      prisma.user.count({ where }),
+      prisma.user.findMany({
+        where,
+        orderBy,
+        select: userSelect,
+        // One extra row tells whether there is another page in that direction
+        take: (backwards ? -1 : 1) * (options.pageSize + 1),
+        ...(cursorId
+          ? { cursor: { id: cursorId }, skip: 1 }
+          : { skip: (options.page - 1) * options.pageSize }),
+      }),
+    ]);
+
+    const hasMore = rows.length > options.pageSize;
+    const data = backwards ? rows.slice(hasMore ? 1 : 0) : rows.slice(0, options.pageSize);
+
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = cursorId ? (backwards ? hasMore : true) : options.page > 1;
+
+    return {
+      data,
+      total,
+      hasNext: hasNext && data.length > 0,
+      hasPrev: hasPrev && (data.length > 0 || !cursorId),
+      nextCursor: data.length > 0 ? encodeCursor(data[data.length - 1].id) : null,
+      prevCursor: data.length > 0 ? encodeCursor(data[0].id) : null,
+    };
+  }
+
+  // Yields users in id order a batch at a time, so exports never hold the whole table in memory
+  async *exportUsers(filters: Parameters<typeof buildUserFilter>[0]) {
+    const where = buildUserFilter(filters);
+    let cursorId: number | undefined;
+
+    while (true) {
+      const users = await prisma.user.findMany({
+        where,
+        select: userSelect,
+        orderBy: { id: 'asc' },
+        take: userConfig.exportBatchSize,
+        ...(cursorId !== undefined && { cursor: { id: cursorId }, skip: 1 }),
+      });
+
+      if (users.length === 0) {
+        return;
       }
-    });
+
+      yield users;
+
+      if (users.length < userConfig.exportBatchSize) {
+        return;
+      }
+      cursorId = users[users.length - 1].id;
+    }
   }
 
   async getUserById(id: number) {
-    const user = await prisma.user.findUnique({
-      where: { id },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        avatar: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-      }
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null },
+      select: userSelect
     });
 
     if (!user) {
@@ -69,18 +190,27 @@ export class UserService {
     return user;
   }
 
-  async updateUser(id: number, data: UpdateUserRequest) {
-    const existingUser = await prisma.user.findUnique({
-      where: { id }
+  // allowEmailChange is off for callers that do not act as the account owner themselves
+  async updateUser(id: number, data: UpdateUserRequest, options: { allowEmailChange?: boolean } = {}) {
+    const existingUser = await prisma.user.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingUser) {
       throw new Error('User not found');
     }
 
-    if (data.email && data.email !== existingUser.email) {
+    // A new address is only requested here, it is applied once confirmed from its inbox
+    const { email, ...changes } = data;
+    const emailChanged = email !== undefined && email !== existingUser.email;
+
+    if (emailChanged && options.allowEmailChange === false) {
+      throw new AppError('The email address cannot be changed with an API key or while impersonating a user', 403, 'FORBIDDEN');
+    }
+
+    if (emailChanged) {
       const emailExists = await prisma.user.findUnique({
-        where: { email: data.email }
+        where: { email }
       });
 
       if (emailExists) {
@@ -88,55 +218,535 @@ export class UserService {
       }
     }
 
+    if (data.role && !(await permissionService.roleExists(data.role))) {
+      throw new Error(`Role ${data.role} does not exist`);
+    }
+
     const user = await prisma.user.update({
       where: { id },
-      data,
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        avatar: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-      }
+      data: changes,
+      select: userSelect
     });
 
+    // Tokens still carry the old role in their payload
+    if (data.role && data.role !== existingUser.role) {
+      await tokenService.revokeAllUserTokens(id);
+    }
+
+    if (emailChanged) {
+      return this.requestEmailChange(user, email);
+    }
+
     return user;
   }
 
+  // Stores the pending address, sends the confirm link to it and a cancel link to the current one
+  private async requestEmailChange(user: { id: number; email: string; name: string | null }, newEmail: string) {
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { pendingEmail: newEmail },
+      select: userSelect
+    });
+
+    const expiresInHours = authConfig.emailChangeExpiresInHours;
+    const expiresInMs = expiresInHours * 60 * 60 * 1000;
+    const confirmToken = await tokenService.createOneTimeToken(user.id, TokenType.EMAIL_CHANGE, expiresInMs);
+    const cancelToken = await tokenService.createOneTimeToken(user.id, TokenType.EMAIL_CHANGE_CANCEL, expiresInMs);
+
+    await sendMail({
+      to: newEmail,
+      subject: 'Confirm your new email address',
+      text: `Hi ${user.name || newEmail},\n\nPlease confirm that you want to use this address for your account by opening the link below. It expires in ${expiresInHours} hours.\n\n${buildAppUrl('confirm-email-change', { token: confirmToken })}`,
+    });
+
+    // The current owner must hear about it even if the new address is not theirs
+    try {
+      await sendMail({
+        to: user.email,
+        subject: 'Your email address is being changed',
+        text: `Hi ${user.name || user.email},\n\nA request was made to change the email address of your account to ${newEmail}. It only takes effect once confirmed from that address.\n\nDid not request this? Open the link below to cancel the change and sign out all sessions, then change your password.\n\n${buildAppUrl('cancel-email-change', { token: cancelToken })}`,
+      });
+    } catch (error) {
+      logError('Failed to send email change notification', error, { userId: user.id });
+    }
+
+    logInfo('Email change requested', { userId: user.id });
+
+    return updatedUser;
+  }
+
+  async confirmEmailChange(token: string) {
+    const changeToken = await tokenService.consumeOneTimeToken(token, TokenType.EMAIL_CHANGE);
+
+    const existingUser = await prisma.user.findFirst({
+      where: { id: changeToken.userId, deletedAt: null }
+    });
+
+    if (!existingUser?.pendingEmail) {
+      throw new AppError('No email change is pending', 400, 'BAD_REQUEST');
+    }
+
+    // The address may have been taken since the change was requested
+    const emailExists = await prisma.user.findUnique({
+      where: { email: existingUser.pendingEmail }
+    });
+
+    if (emailExists) {
+      throw new AppError('Email already in use', 409, 'CONFLICT');
+    }
+
+    const user = await prisma.user.update({
+      where: { id: existingUser.id },
+      data: {
+        email: existingUser.pendingEmail,
+        pendingEmail: null,
+        emailVerifiedAt: new Date(),
+      },
+      select: userSelect
+    });
+
+    // Tokens carry the old address and links sent to it must not work anymore
+    await tokenService.revokeAllUserTokens(user.id, Object.values(TokenType));
+
+    logInfo('Email address changed', { userId: user.id });
+
+    return user;
+  }
+
+  async cancelEmailChange(token: string) {
+    const cancelToken = await tokenService.consumeOneTimeToken(token, TokenType.EMAIL_CHANGE_CANCEL);
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: cancelToken.userId, pendingEmail: { not: null } },
+      data: { pendingEmail: null }
+    });
+
+    if (count === 0) {
+      throw new AppError('No email change is pending', 400, 'BAD_REQUEST');
+    }
+
+    // Whoever asked for the change may be signed in, so every session ends with the confirm link
+    await tokenService.revokeAllUserTokens(cancelToken.userId, [...SESSION_TOKEN_TYPES, TokenType.EMAIL_CHANGE]);
+
+    logWarning('Email change cancelled', { userId: cancelToken.userId });
+
+    return { message: 'Email change cancelled and all sessions signed out, please change your password' };
+  }
+
+  // Soft delete, authored content is kept and the user can be restored until purged
   async deleteUser(id: number) {
-    const existingUser = await prisma.user.findUnique({
-      where: { id }
+    const existingUser = await prisma.user.findFirst({
+      where: { id, deletedAt: null }
     });
 
     if (!existingUser) {
       throw new Error('User not found');
     }
 
-    await prisma.user.delete({
-      where: { id }
+    await prisma.user.update({
+      where: { id },
+      data: { deletedAt: new Date() }
     });
 
+    // One-time links included, nothing issued before the delete may be used again
+    await tokenService.revokeAllUserTokens(id, Object.values(TokenType));
+
+    logInfo('User soft deleted', { userId: id });
+
     return { message: 'User deleted successfully' };
   }
 
-  async loginUser(credentials: LoginRequest) {
+  async restoreUser(id: number) {
+    const existingUser = await prisma.user.findFirst({
+      where: { id, deletedAt: { not: null } }
+    });
+
+    if (!existingUser) {
+      throw new AppError('Deleted user not found', 404, 'NOT_FOUND');
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { deletedAt: null, erasureScheduledAt: null },
+      select: userSelect
+    });
+
+    logInfo('User restored', { userId: id });
+
+    return user;
+  }
+
+  // Permanently removes a soft-deleted user together with everything that cascades from it,
+  // their posts are kept without an author
+  async purgeUser(id: number) {
     const user = await prisma.user.findUnique({
-      where: { email: credentials.email }
+      where: { id }
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    if (!user.deletedAt) {
+      throw new AppError('Only deleted users can be purged', 409, 'CONFLICT');
+    }
+
+    await prisma.$transaction([
+      prisma.post.updateMany({
+        where: { authorId: id },
+        data: { authorId: null }
+      }),
+      prisma.user.delete({
+        where: { id }
+      }),
+    ]);
+
+    if (user.avatar) {
+      try {
+        deleteAvatarFile(user.avatar);
+      } catch (error) {
+        logError('Failed to remove avatar of purged user', error, { userId: id });
+      }
+    }
+
+    logInfo('User purged', { userId: id, deletedAt: user.deletedAt });
+
+    return { message: 'User permanently deleted' };
+  }
+
+  // Purges users that stayed soft deleted longer than the retention period
+  async purgeExpiredUsers() {
+    const cutoff = new Date(Date.now() - userConfig.deletedRetentionDays * 24 * 60 * 60 * 1000);
+    // Accounts the user asked to erase are handled by the erasure job
+    const users = await prisma.user.findMany({
+      where: { deletedAt: { lte: cutoff }, erasureScheduledAt: null },
+      select: { id: true }
+    });
+
+    for (const user of users) {
+      await this.purgeUser(user.id);
+    }
+
+    if (users.length > 0) {
+      logInfo('Retention job purged deleted users', { count: users.length, cutoff });
+    }
+
+    return users.length;
+  }
+
+  // Runs the retention job now and then every USER_RETENTION_INTERVAL_MINUTES
+  startRetentionJob() {
+    if (retentionTimer) {
+      return;
+    }
+
+    const run = () =>
+      this.purgeExpiredUsers().catch((error) => logError('Error purging deleted users', error));
+
+    run();
+    retentionTimer = setInterval(run, userConfig.retentionIntervalMinutes * 60 * 1000);
+    retentionTimer.unref();
+  }
+
+  async loginUser(credentials: LoginRequest, ip?: string) {
+    await loginThrottle.beforeAttempt(credentials.email, ip);
+
+    const user = await prisma.user.findFirst({
+      where: { email: credentials.email, deletedAt: null }
     });
 
     if (!user) {
+      await loginThrottle.recordFailure(credentials.email, ip);
       throw new Error('Invalid credentials');
     }
 
-    const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
+    // Accounts without a password can only sign in through their identity provider
+    const isPasswordValid = user.password
+      ? await bcrypt.compare(credentials.password, user.password)
+      : false;
 
     if (!isPasswordValid) {
+      await loginThrottle.recordFailure(credentials.email, ip);
       throw new Error('Invalid credentials');
     }
 
-    const { password, ...userWithoutPassword } = user;
+    await loginThrottle.recordSuccess(credentials.email, ip);
+
+    // Only reported once the password is right, so it does not reveal anything to guessers
+    await userStatusService.assertActive(user);
+
+    if (authConfig.emailVerificationPolicy === 'login' && !hasVerifiedEmail(user)) {
+      throw new Error('Email address has not been verified');
+    }
+
+    const { password, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = user;
+    return userWithoutPassword;
+  }
+
+  // Checks an admin may act as the target user and returns the target
+  async getImpersonationTarget(id: number, actorId: number) {
+    if (id === actorId) {
+      throw new AppError('You cannot impersonate yourself', 400, 'BAD_REQUEST');
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null },
+      select: userSelect
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    // Anyone who could impersonate or hand out roles counts as an admin here
+    const targetPermissions = await permissionService.getRolePermissions(user.role);
+    if (
+      user.role === SystemRole.ADMIN ||
+      targetPermissions.includes('users:impersonate') ||
+      targetPermissions.includes('roles:manage')
+    ) {
+      throw new AppError('Admin accounts cannot be impersonated', 403, 'FORBIDDEN');
+    }
+
+    return user;
+  }
+
+  async unlockUser(id: number) {
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await loginThrottle.unlockAccount(user.email);
+
+    return { message: 'User login lockout cleared' };
+  }
+
+  async changePassword(id: number, currentPassword: string, newPassword: string, currentJti?: string) {
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.password) {
+      throw new Error('This account has no password, use the password reset flow to set one');
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (await bcrypt.compare(newPassword, user.password)) {
+      throw new Error('New password must be different from the current password');
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    await prisma.user.update({
+      where: { id },
+      data: { password: hashedPassword }
+    });
+
+    // Keep the caller signed in, everyone else has to log in with the new password
+    await tokenService.revokeOtherSessions(id, currentJti);
+
+    logInfo('Password changed', { userId: id });
+
+    return { message: 'Password changed successfully' };
+  }
+
+  async requestPasswordReset(email: string) {
+    const user = await prisma.user.findFirst({
+      where: { email, deletedAt: null }
+    });
+
+    // Callers always get the same answer, so do nothing visible for unknown emails
+    if (!user) {
+      logInfo('Password reset requested for unknown email', { email });
+      return;
+    }
+
+    const expiresInMinutes = authConfig.passwordResetExpiresInMinutes;
+    const token = await tokenService.createOneTimeToken(
+      user.id,
+      TokenType.PASSWORD_RESET,
+      expiresInMinutes * 60 * 1000
+    );
+    const resetUrl = buildAppUrl('reset-password', { token });
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.name || user.email},\n\nUse the link below to reset your password. It expires in ${expiresInMinutes} minutes and can only be used once.\n\n${resetUrl}\n\nIf you did not request a password reset, you can ignore this email.`,
+    });
+
+    logInfo('Password reset email sent', { userId: user.id });
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    const resetToken = await tokenService.consumeOneTimeToken(token, TokenType.PASSWORD_RESET);
+
+    const user = await prisma.user.findFirst({
+      where: { id: resetToken.userId, deletedAt: null }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    await prisma.user.update({
+      where: { id: resetToken.userId },
+      data: { password: hashedPassword }
+    });
+
+    // Whoever had access before the reset must sign in again
+    await tokenService.revokeAllUserTokens(resetToken.userId);
+
+    logInfo('Password reset completed', { userId: resetToken.userId });
+
+    return { message: 'Password has been reset successfully' };
+  }
+
+  // Throws when the email asked for too many links, otherwise silently ignores unknown emails
+  async requestMagicLink(email: string) {
+    await loginThrottle.limitMagicLinkRequests(email);
+
+    const user = await prisma.user.findFirst({
+      where: { email, deletedAt: null }
+    });
+
+    if (!user) {
+      logInfo('Magic link requested for unknown email', { email });
+      return;
+    }
+
+    const expiresInMinutes = authConfig.magicLink.expiresInMinutes;
+    const token = await tokenService.createOneTimeToken(
+      user.id,
+      TokenType.MAGIC_LINK,
+      expiresInMinutes * 60 * 1000
+    );
+    const loginUrl = buildAppUrl('magic-link', { token });
+
+    await sendMail({
+      to: user.email,
+      subject: 'Your sign-in link',
+      text: `Hi ${user.name || user.email},\n\nUse the link below to sign in. It expires in ${expiresInMinutes} minutes and can only be used once.\n\n${loginUrl}\n\nIf you did not request this link, you can ignore this email.`,
+    });
+
+    logInfo('Magic link email sent', { userId: user.id });
+  }
+
+  // Redeems a magic link, returning the user the same way loginUser does
+  async loginWithMagicLink(token: string) {
+    const magicLink = await tokenService.consumeOneTimeToken(token, TokenType.MAGIC_LINK);
+
+    const existingUser = await prisma.user.findFirst({
+      where: { id: magicLink.userId, deletedAt: null }
+    });
+
+    if (!existingUser) {
+      throw new Error('User not found');
+    }
+
+    await userStatusService.assertActive(existingUser);
+
+    // Opening the link proves the user controls the address
+    const user = existingUser.emailVerifiedAt
+      ? existingUser
+      : await prisma.user.update({
+          where: { id: existingUser.id },
+          data: { emailVerifiedAt: new Date() }
+        });
+
+    await loginThrottle.recordSuccess(user.email);
+
+    const { password, twoFactorSecret, twoFactorLastUsedStep, ...userWithoutPassword } = user;
     return userWithoutPassword;
   }
-}
\ No newline at end of file
+
+  async sendVerificationEmail(userId: number) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, deletedAt: null }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new Error('Email address is already verified');
+    }
+
+    const expiresInHours = authConfig.emailVerificationExpiresInHours;
+    const token = await tokenService.createOneTimeToken(
+      user.id,
+      TokenType.EMAIL_VERIFICATION,
+      expiresInHours * 60 * 60 * 1000
+    );
+    const verifyUrl = buildAppUrl('api/auth/verify-email', { token });
+
+    await sendMail({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Hi ${user.name || user.email},\n\nPlease confirm your email address by opening the link below. It expires in ${expiresInHours} hours.\n\n${verifyUrl}`,
+    });
+
+    logInfo('Verification email sent', { userId: user.id });
+  }
+
+  async resendVerificationEmail(email: string) {
+    const user = await prisma.user.findFirst({
+      where: { email, deletedAt: null }
+    });
+
+    // Unknown or already verified addresses get the same response as valid ones
+    if (!user || user.emailVerifiedAt) {
+      logInfo('Verification email not resent', { email });
+      return;
+    }
+
+    await this.sendVerificationEmail(user.id);
+  }
+
+  async verifyEmail(token: string) {
+    const verificationToken = await tokenService.consumeOneTimeToken(token, TokenType.EMAIL_VERIFICATION);
+
+    const existingUser = await prisma.user.findFirst({
+      where: { id: verificationToken.userId, deletedAt: null }
+    });
+
+    if (!existingUser) {
+      throw new Error('User not found');
+    }
+
+    const user = await prisma.user.update({
+      where: { id: existingUser.id },
+      data: { emailVerifiedAt: new Date() },
+      select: userSelect
+    });
+
+    logInfo('Email address verified', { userId: user.id });
+
+    return user;
+  }
+
+  async isEmailVerified(id: number) {
+    const user = await prisma.user.findFirst({
+      where: { id, deletedAt: null },
+      select: { emailVerifiedAt: true, createdAt: true }
+    });
+
+    return Boolean(user && hasVerifiedEmail(user));
+  }
+}
@@ -0,0 +1,177 @@
+import prisma from '../config/database';
+import authConfig from '../config/auth';
+import userConfig from '../config/user';
+import { TokenType } from '../types/token';
+import { UserStatus } from '../types/user';
+import { AccountStatusError, AppError } from '../utils/errors';
+import { logError, logInfo, logWarning } from '../utils/logger';
+import { ChangeUserStatusInput } from '../validations/userValidation';
+import { TokenService } from './tokenService';
+
+interface StatusFields {
+  id: number;
+  status: string;
+  statusReason: string | null;
+  suspendedUntil: Date | null;
+}
+
+const tokenService = new TokenService();
+
+// authenticate checks the status on every request, so keep it briefly in memory
+const statusCache = new Map<number, { user: StatusFields; cachedUntil: number }>();
+
+let reactivationTimer: NodeJS.Timeout | null = null;
+
+const statusSelect = {
+  id: true,
+  status: true,
+  statusReason: true,
+  suspendedUntil: true,
+} as const;
+
+const isSuspensionOver = (user: StatusFields) =>
+  user.status === UserStatus.SUSPENDED && user.suspendedUntil !== null && user.suspendedUntil <= new Date();
+
+const toStatusError = (user: StatusFields) => {
+  switch (user.status) {
+    case UserStatus.SUSPENDED:
+      return new AccountStatusError(
+        user.suspendedUntil
+          ? `Account is suspended until ${user.suspendedUntil.toISOString()}`
+          : 'Account is suspended',
+        'ACCOUNT_SUSPENDED',
+        user.statusReason,
+        user.suspendedUntil
+      );
+    case UserStatus.PENDING:
+      return new AccountStatusError('Account is pending activation', 'ACCOUNT_PENDING', user.statusReason);
+    default:
+      return new AccountStatusError('Account is deactivated', 'ACCOUNT_DEACTIVATED', user.statusReason);
+  }
+};
+
+export class UserStatusService {
+  // Throws an AccountStatusError unless the user may sign in, lifting an expired suspension first
+  async assertActive(user: StatusFields) {
+    if (user.status === UserStatus.ACTIVE) {
+      return;
+    }
+
+    if (isSuspensionOver(user)) {
+      await this.reactivate(user.id);
+      return;
+    }
+
+    throw toStatusError(user);
+  }
+
+  // Cached variant for request authentication
+  async assertUserActive(userId: number) {
+    const cached = statusCache.get(userId);
+    let user = cached && cached.cachedUntil > Date.now() ? cached.user : null;
+
+    if (!user) {
+      user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: statusSelect
+      });
+
+      if (!user) {
+        throw new AccountStatusError('Account no longer exists', 'ACCOUNT_DEACTIVATED');
+      }
+
+      statusCache.set(userId, {
+        user,
+        cachedUntil: Date.now() + authConfig.revocationCacheTtlSeconds * 1000,
+      });
+    }
+
+    await this.assertActive(user);
+  }
+
+  async changeStatus(id: number, data: ChangeUserStatusInput, actorId: number) {
+    if (id === actorId) {
+      throw new AppError('You cannot change your own status', 400, 'BAD_REQUEST');
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { id, deletedAt: null },
+      select: statusSelect
+    });
+
+    if (!existingUser) {
+      throw new AppError('User not found', 404, 'NOT_FOUND');
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        status: data.status,
+        statusReason: data.status === UserStatus.ACTIVE ? null : data.reason ?? null,
+        suspendedUntil: data.suspendedUntil ?? null,
+        statusChangedAt: new Date(),
+      },
+      select: { ...statusSelect, statusChangedAt: true }
+    });
+
+    statusCache.delete(id);
+
+    // Sign the user out everywhere, including pending one-time links
+    if (data.status !== UserStatus.ACTIVE) {
+      await tokenService.revokeAllUserTokens(id, Object.values(TokenType));
+    }
+
+    logWarning('User status changed', {
+      userId: id,
+      actorId,
+      from: existingUser.status,
+      to: data.status,
+      reason: data.reason,
+      suspendedUntil: data.suspendedUntil,
+    });
+
+    return user;
+  }
+
+  async reactivate(id: number) {
+    await prisma.user.update({
+      where: { id },
+      data: {
+        status: UserStatus.ACTIVE,
+        statusReason: null,
+        suspendedUntil: null,
+        statusChangedAt: new Date(),
+      }
+    });
+
+    statusCache.delete(id);
+    logInfo('Timed suspension ended, user reactivated', { userId: id });
+  }
+
+  async reactivateExpiredSuspensions() {
+    const users = await prisma.user.findMany({
+      where: { status: UserStatus.SUSPENDED, suspendedUntil: { lte: new Date() } },
+      select: { id: true }
+    });
+
+    for (const user of users) {
+      await this.reactivate(user.id);
+    }
+
+    return users.length;
+  }
+
+  // Lifts expired suspensions now and then every USER_SUSPENSION_CHECK_INTERVAL_MINUTES
+  startReactivationJob() {
+    if (reactivationTimer) {
+      return;
+    }
+
+    const run = () =>
+      this.reactivateExpiredSuspensions().catch((error) => logError('Error reactivating suspended users', error));
+
+    run();
+    reactivationTimer = setInterval(run, userConfig.suspensionCheckIntervalMinutes * 60 * 1000);
+    reactivationTimer.unref();
+  }
+}
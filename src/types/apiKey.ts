@@ -0,0 +1,14 @@
+// Scopes an API key can be granted; JWT sessions implicitly have all of them
+export const API_KEY_SCOPES = [
+  'profile:read',
+  'profile:write',
+  'users:read',
+  'users:write',
+  'posts:read',
+  'posts:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Prefix that identifies a personal access token in the Authorization header
+export const API_KEY_PREFIX = 'pat_';
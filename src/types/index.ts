@@ -1,10 +1,24 @@
-import { User, UserRole } from '@prisma/client';
+import { User } from '@prisma/client';
+import { AuthTokens } from './token';
+
+// Admin acting on behalf of the user, see RFC 8693 "act"
+export interface ActorClaim {
+  id: number;
+  email: string;
+}
 
 export interface UserPayload {
   id: number;
   email: string;
   name: string;
-  role: UserRole;
+  role: string;
+  jti?: string;
+  // Session passed two-factor authentication
+  mfa?: boolean;
+  // Present on impersonation tokens, identifies the real admin
+  act?: ActorClaim;
+  // Permissions of the role, embedded for services verifying the token through JWKS
+  permissions?: string[];
 }
 
 export interface CreateUserRequest {
@@ -12,14 +26,14 @@ export interface CreateUserRequest {
   name: string;
   password: string;
   avatar?: string;
-  role?: UserRole;
+  role?: string;
 }
 
 export interface UpdateUserRequest {
   email?: string;
   name?: string;
   avatar?: string;
-  role?: UserRole;
+  role?: string;
 }
 
 export interface LoginRequest {
@@ -27,8 +41,7 @@ export interface LoginRequest {
   password: string;
 }
 
-export interface LoginResponse {
-  token: string;
+export interface LoginResponse extends AuthTokens {
   user: Omit<User, 'password'>;
 }
 
@@ -38,10 +51,17 @@ declare module '@fastify/jwt' {
   }
 }
 
+export interface ApiKeyContext {
+  id: number;
+  scopes: string[];
+}
+
 declare module 'fastify' {
   interface FastifyRequest {
     jwt: {
       user: UserPayload;
     };
+    // Set by authenticate when the request used an API key instead of a JWT
+    apiKey?: ApiKeyContext;
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+// Everything a role can be allowed to do
+export const PERMISSIONS = [
+  'users:read',
+  'users:export',
+  'users:create',
+  'users:update',
+  'users:delete',
+  'users:purge',
+  'users:impersonate',
+  'users:unlock',
+  'users:status',
+  'users:sessions',
+  'roles:manage',
+  'posts:create',
+  'posts:update',
+  'posts:delete',
+  'posts:publish',
+  'categories:manage',
+  'tags:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Permissions that are also granted on resources the caller owns (own profile, own posts)
+export const OWNABLE_PERMISSIONS: Permission[] = [
+  'users:update',
+  'posts:update',
+  'posts:delete',
+];
+
+// Built-in roles, ADMIN always has every permission
+export const SystemRole = {
+  ADMIN: 'ADMIN',
+  USER: 'USER',
+} as const;
+
+export const DEFAULT_USER_PERMISSIONS: Permission[] = ['posts:create'];
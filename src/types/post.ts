@@ -0,0 +1,29 @@
+// Values stored in the `status` column of the Post model
+export const PostStatus = {
+  DRAFT: 'draft',
+  IN_REVIEW: 'in_review',
+  // publishedAt lies in the future, the scheduler publishes the post then
+  SCHEDULED: 'scheduled',
+  PUBLISHED: 'published',
+  ARCHIVED: 'archived',
+} as const;
+
+export type PostStatus = (typeof PostStatus)[keyof typeof PostStatus];
+
+export const POST_STATUSES = Object.values(PostStatus) as [PostStatus, ...PostStatus[]];
+
+// Statuses a post can move to from each status
+export const POST_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  [PostStatus.DRAFT]: [PostStatus.IN_REVIEW],
+  [PostStatus.IN_REVIEW]: [PostStatus.DRAFT, PostStatus.SCHEDULED, PostStatus.PUBLISHED],
+  [PostStatus.SCHEDULED]: [PostStatus.IN_REVIEW, PostStatus.PUBLISHED],
+  [PostStatus.PUBLISHED]: [PostStatus.ARCHIVED],
+  [PostStatus.ARCHIVED]: [PostStatus.DRAFT],
+};
+
+// Entering or leaving these is an editorial decision that needs posts:publish
+export const EDITORIAL_STATUSES: PostStatus[] = [
+  PostStatus.SCHEDULED,
+  PostStatus.PUBLISHED,
+  PostStatus.ARCHIVED,
+];
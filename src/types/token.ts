@@ -0,0 +1,36 @@
+// Values stored in the `type` column of the Token model
+export const TokenType = {
+  ACCESS: 'access',
+  REFRESH: 'refresh',
+  PASSWORD_RESET: 'password_reset',
+  EMAIL_VERIFICATION: 'email_verification',
+  TWO_FACTOR_CHALLENGE: 'two_factor_challenge',
+  MAGIC_LINK: 'magic_link',
+  ERASURE_CANCEL: 'erasure_cancel',
+  INVITATION: 'invitation',
+  EMAIL_CHANGE: 'email_change',
+  EMAIL_CHANGE_CANCEL: 'email_change_cancel',
+} as const;
+
+export type TokenType = (typeof TokenType)[keyof typeof TokenType];
+
+// Token types that represent a signed-in session
+export const SESSION_TOKEN_TYPES: TokenType[] = [TokenType.ACCESS, TokenType.REFRESH];
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresIn: number;
+}
+
+// Where a session was opened from, taken from the incoming request
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
@@ -1,5 +1,18 @@
 import { CreateUserInput, UpdateUserInput } from '../validations/userValidation';
 
+// Values stored in the `status` column of the User model
+export const UserStatus = {
+  ACTIVE: 'active',
+  SUSPENDED: 'suspended',
+  // created but not allowed in yet, e.g. awaiting approval
+  PENDING: 'pending',
+  DEACTIVATED: 'deactivated',
+} as const;
+
+export type UserStatus = (typeof UserStatus)[keyof typeof UserStatus];
+
+export const USER_STATUSES = Object.values(UserStatus) as [UserStatus, ...UserStatus[]];
+
 export interface CreateUserRequest extends Omit<CreateUserInput, 'confirmPassword'> {}
 
 export interface UpdateUserRequest extends UpdateUserInput {}
@@ -9,7 +22,9 @@ export interface UserResponse {
   name: string;
   email: string;
   avatar?: string;
-  role: 'USER' | 'ADMIN';
+  role: string;
+  status: UserStatus;
+  emailVerifiedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
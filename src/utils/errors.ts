@@ -0,0 +1,31 @@
+// Errors that carry the HTTP status and a machine readable code for the client
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number = 400,
+    public readonly code: string = 'BAD_REQUEST'
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+// Account exists but its status does not allow signing in or using issued tokens
+export class AccountStatusError extends AppError {
+  constructor(
+    message: string,
+    code: string,
+    public readonly reason: string | null = null,
+    public readonly suspendedUntil: Date | null = null
+  ) {
+    super(message, 403, code);
+    this.name = 'AccountStatusError';
+  }
+}
+
+export class TooManyAttemptsError extends AppError {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message, 429, 'TOO_MANY_ATTEMPTS');
+    this.name = 'TooManyAttemptsError';
+  }
+}
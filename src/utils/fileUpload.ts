@@ -1,8 +1,8 @@
 import { FastifyRequest } from "fastify";
 import { randomUUID } from "crypto";
 import * as fs from "fs";
-const { createWriteStream, existsSync, mkdirSync, unlinkSync } = fs;
-import { join } from "path";
+const { createWriteStream, existsSync, mkdirSync, readdirSync, unlinkSync } = fs;
+import { basename, join } from "path";
 import { promisify } from "util";
 import { pipeline } from "stream";
 import { logError, logInfo } from "./logger";
@@ -102,6 +102,23 @@ export async function handleFileUpload(
   }
 }
 
+// Removes a stored avatar given the URL saved on the user, missing files are ignored
+export function deleteAvatarFile(avatarUrl: string) {
+  const filePath = join(UPLOAD_DIR, basename(avatarUrl));
+  if (existsSync(filePath)) {
+    unlinkSync(filePath);
+    logInfo(`Avatar file removed: ${basename(avatarUrl)}`);
+  }
+}
+
+// Every avatar ever uploaded for the user, uploads are named user_<id>_<uuid>.<ext>
+export function listUserAvatarFiles(userId: number): string[] {
+  const prefix = `user_${userId}_`;
+  return readdirSync(UPLOAD_DIR)
+    .filter((fileName) => fileName.startsWith(prefix))
+    .map((fileName) => join(UPLOAD_DIR, fileName));
+}
+
 export function getAvatarUrl(fileName: string): string {
   return `/avatars/${fileName}`;
 }
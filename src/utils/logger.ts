@@ -108,6 +108,14 @@ export const formatRequest = (req: FastifyRequest) => ({
   user: req.user ? { id: req.user.id } : undefined
 });
 
+// Client details stored with sessions
+export const getClientInfo = (req: FastifyRequest) => ({
+  ipAddress: req.ip,
+  userAgent: typeof req.headers['user-agent'] === 'string'
+    ? req.headers['user-agent'].slice(0, 500)
+    : undefined
+});
+
 // Custom logging functions
 export const logError = (message: string, error: any, meta: Record<string, any> = {}) => {
   const errorInfo = error instanceof Error 
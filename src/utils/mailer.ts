@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import mailConfig from '../config/mail';
+import { logError, logInfo } from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Prints emails to stdout, useful for local development
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }) {
+    console.log(
+      `\n📧 Mail to ${message.to}\nFrom: ${message.from}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+// Writes each email as a JSON file into storage/mail
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir = path.join(process.cwd(), 'storage', 'mail')) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    await fs.promises.writeFile(
+      path.join(this.dir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+const createTransport = (name: string): MailTransport => {
+  switch (name) {
+    case 'file':
+      return new FileMailTransport();
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+};
+
+let transport: MailTransport = createTransport(mailConfig.transport);
+
+// Replace the transport (e.g. with an SMTP or provider API implementation)
+export const setMailTransport = (customTransport: MailTransport) => {
+  transport = customTransport;
+};
+
+export const buildAppUrl = (pathname: string, query: Record<string, string> = {}) => {
+  const url = new URL(`${mailConfig.appUrl}/${pathname.replace(/^\//, '')}`);
+  Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+export const sendMail = async (message: MailMessage) => {
+  try {
+    await transport.send({ ...message, from: mailConfig.from });
+    logInfo('Mail sent', { to: message.to, subject: message.subject });
+  } catch (error) {
+    logError('Failed to send mail', error, { to: message.to, subject: message.subject });
+    throw new Error('Failed to send email');
+  }
+};
@@ -0,0 +1,28 @@
+// Characters a generated slug leaves free in its column for a "-n" suffix (up to "-99999")
+const SUFFIX_ROOM = 6;
+
+// Lowercase ASCII letters and digits separated by single dashes, accents are dropped. Cut to fit
+// a column of columnLength characters with room for a suffix
+export function slugify(value: string, columnLength = 255): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, columnLength - SUFFIX_ROOM)
+    .replace(/^-+|-+$/g, '');
+}
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Slug for the value that is not among the taken ones, numbered "-2", "-3", ... on collisions
+export function pickUniqueSlug(value: string, taken: string[], fallback: string, columnLength = 255): string {
+  const base = slugify(value, columnLength) || fallback;
+  const slugs = new Set(taken);
+
+  let slug = base;
+  for (let n = 2; slugs.has(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../types/apiKey';
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().int().min(1, 'Expiry must be at least 1 day').max(365, 'Expiry must be at most 365 days').optional().default(90)
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -17,5 +17,83 @@ export const registerSchema = z.object({
   path: ["confirmPassword"]
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address')
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string().min(6, 'Confirm Password must be at least 6 characters')
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"]
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+});
+
+export const resendVerificationSchema = z.object({
+  email: z.string().email('Invalid email address')
+});
+
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Code is required')
+});
+
+export const magicLinkSchema = z.object({
+  email: z.string().email('Invalid email address')
+});
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Sign-in token is required')
+});
+
+export const oidcCallbackSchema = z.object({
+  code: z.string().min(1, 'Authorization code is required'),
+  state: z.string().min(1, 'State is required')
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string().min(6, 'Confirm Password must be at least 6 characters')
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"]
+});
+
+export const cancelErasureSchema = z.object({
+  token: z.string().min(1, 'Cancellation token is required')
+});
+
+export const confirmEmailChangeSchema = z.object({
+  token: z.string().min(1, 'Confirmation token is required')
+});
+
+export const cancelEmailChangeSchema = z.object({
+  token: z.string().min(1, 'Cancellation token is required')
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
+export type LoginTwoFactorInput = z.infer<typeof loginTwoFactorSchema>;
+export type OidcCallbackInput = z.infer<typeof oidcCallbackSchema>;
+export type MagicLinkInput = z.infer<typeof magicLinkSchema>;
+export type VerifyMagicLinkInput = z.infer<typeof verifyMagicLinkSchema>;
+export type CancelErasureInput = z.infer<typeof cancelErasureSchema>;
+export type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+export type ConfirmEmailChangeInput = z.infer<typeof confirmEmailChangeSchema>;
+export type CancelEmailChangeInput = z.infer<typeof cancelEmailChangeSchema>;
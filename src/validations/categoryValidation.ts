@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { SLUG_PATTERN } from '../utils/slug';
+
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name must be at most 100 characters'),
+  // Generated from the name when omitted
+  slug: z.string().trim().max(100, 'Slug must be at most 100 characters').regex(SLUG_PATTERN, 'Slug may only contain lowercase letters, digits and dashes').optional(),
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').optional()
+});
+
+// The slug only changes when given, the description can be cleared with null
+export const updateCategorySchema = createCategorySchema.extend({
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').nullable()
+}).partial();
+
+export const deleteCategoryQuerySchema = z.object({
+  // Category that receives the posts of the deleted one
+  reassignTo: z.coerce.number().int().positive('reassignTo must be a category id').optional()
+});
+
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type DeleteCategoryQuery = z.input<typeof deleteCategoryQuerySchema>;
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { POST_STATUSES, PostStatus } from '../types/post';
+import { SLUG_PATTERN } from '../utils/slug';
+
+const postFields = {
+  title: z.string().trim().min(3, 'Title must be at least 3 characters').max(255, 'Title must be at most 255 characters'),
+  // Generated from the title when omitted
+  slug: z.string().trim().max(255, 'Slug must be at most 255 characters').regex(SLUG_PATTERN, 'Slug may only contain lowercase letters, digits and dashes'),
+  content: z.string().trim().min(1, 'Content is required'),
+  excerpt: z.string().trim().max(500, 'Excerpt must be at most 500 characters'),
+  image: z.string().trim().max(255, 'Image must be at most 255 characters'),
+  categoryId: z.number().int().positive('Category is required'),
+};
+
+// New posts start as drafts, the status only changes through transitions
+export const createPostSchema = z.object({
+  ...postFields,
+  slug: postFields.slug.optional(),
+  excerpt: postFields.excerpt.optional(),
+  image: postFields.image.optional()
+});
+
+// Excerpt and image can be cleared with null, the slug only changes when given
+export const updatePostSchema = z.object({
+  ...postFields,
+  excerpt: postFields.excerpt.nullable(),
+  image: postFields.image.nullable(),
+}).partial();
+
+export const postTransitionSchema = z.object({
+  status: z.enum(POST_STATUSES, {
+    errorMap: () => ({ message: `Status must be one of ${POST_STATUSES.join(', ')}` })
+  }),
+  // Publication time, required when scheduling
+  publishedAt: z.coerce.date({ invalid_type_error: 'publishedAt must be a date' }).optional(),
+  note: z.string().trim().max(500, 'Note must be at most 500 characters').optional()
+}).refine((data) => (data.status === PostStatus.SCHEDULED) === Boolean(data.publishedAt), {
+  message: 'publishedAt is required when scheduling and only allowed then',
+  path: ['publishedAt']
+}).refine((data) => !data.publishedAt || data.publishedAt > new Date(), {
+  message: 'publishedAt must be in the future',
+  path: ['publishedAt']
+});
+
+// Fields the post list can be sorted by, prefix with "-" for descending
+export const POST_SORT_FIELDS = ['id', 'title', 'views', 'publishedAt', 'createdAt', 'updatedAt'] as const;
+
+export type PostSortField = (typeof POST_SORT_FIELDS)[number];
+
+export const listPostsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').optional().default(1),
+  pageSize: z.coerce.number().int().min(1, 'Page size must be at least 1').max(100, 'Page size must be at most 100').optional().default(20),
+  status: z.enum(POST_STATUSES).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  authorId: z.coerce.number().int().positive().optional(),
+  // Matches part of the title
+  search: z.string().trim().min(1).optional(),
+  sort: z.string().optional().default('-createdAt').transform((value, ctx) => {
+    const fields = value.split(',').map((field) => field.trim()).filter(Boolean);
+    const parsed = fields.map((field) => ({
+      field: field.replace(/^-/, '') as PostSortField,
+      direction: field.startsWith('-') ? 'desc' as const : 'asc' as const,
+    }));
+
+    const invalid = parsed.find((item) => !POST_SORT_FIELDS.includes(item.field));
+    if (invalid || parsed.length === 0 || parsed.length > 3) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Sort must be up to 3 of ${POST_SORT_FIELDS.join(', ')}, optionally prefixed with "-"`,
+      });
+      return z.NEVER;
+    }
+
+    return parsed;
+  })
+});
+
+export type CreatePostInput = z.infer<typeof createPostSchema>;
+export type UpdatePostInput = z.infer<typeof updatePostSchema>;
+export type PostTransitionInput = z.infer<typeof postTransitionSchema>;
+export type ListPostsQuery = z.input<typeof listPostsQuerySchema>;
+export type ListPostsOptions = z.output<typeof listPostsQuerySchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { PERMISSIONS } from '../types/permission';
+
+export const createRoleSchema = z.object({
+  name: z.string().trim().regex(/^[A-Z][A-Z0-9_]{1,49}$/, 'Name must be upper case letters, digits or underscores'),
+  description: z.string().max(255, 'Description must be at most 255 characters').optional(),
+  permissions: z.array(z.enum(PERMISSIONS))
+});
+
+export const updateRoleSchema = z.object({
+  description: z.string().max(255, 'Description must be at most 255 characters').optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).optional()
+});
+
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
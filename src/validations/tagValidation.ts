@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { SLUG_PATTERN } from '../utils/slug';
+
+const tagNameSchema = z.string().trim().min(1, 'Tag name is required').max(100, 'Tag name must be at most 100 characters');
+
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  // Generated from the name when omitted
+  slug: z.string().trim().max(100, 'Slug must be at most 100 characters').regex(SLUG_PATTERN, 'Slug may only contain lowercase letters, digits and dashes').optional()
+});
+
+export const updateTagSchema = createTagSchema.partial();
+
+// Tags attached to or detached from a post, unknown names are created when attaching
+export const postTagsSchema = z.object({
+  tags: z.array(tagNameSchema).min(1, 'At least one tag is required').max(20, 'At most 20 tags at once')
+});
+
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
+export type PostTagsInput = z.infer<typeof postTagsSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { USER_STATUSES, UserStatus } from '../types/user';
 
 export const createUserSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -6,7 +7,7 @@ export const createUserSchema = z.object({
   password: z.string().min(6, 'Password must be at least 6 characters'),
   confirmPassword: z.string().min(6, 'Confirm Password must be at least 6 characters'),
   avatar: z.string().optional(),
-  role: z.enum(['USER', 'ADMIN']).optional().default('USER')
+  role: z.string().trim().min(1, 'Role is required').optional().default('USER')
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"]
@@ -16,7 +17,25 @@ export const updateUserSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters').optional(),
   email: z.string().email('Invalid email address').optional(),
   avatar: z.string().optional(),
-  role: z.enum(['USER', 'ADMIN']).optional()
+  role: z.string().trim().min(1, 'Role is required').optional()
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string().min(6, 'Confirm Password must be at least 6 characters')
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"]
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Code is required')
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().min(1, 'Code is required')
 });
 
 export const avatarSchema = z.object({
@@ -28,6 +47,104 @@ export const avatarSchema = z.object({
   fieldname: z.literal('avatar')
 });
 
+// Fields the user list can be sorted by, prefix with "-" for descending
+export const USER_SORT_FIELDS = ['id', 'email', 'name', 'role', 'createdAt', 'updatedAt'] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export const listUsersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').optional().default(1),
+  pageSize: z.coerce.number().int().min(1, 'Page size must be at least 1').max(100, 'Page size must be at most 100').optional().default(20),
+  // Opaque cursor from a previous response, switches to cursor pagination
+  cursor: z.string().min(1).optional(),
+  direction: z.enum(['next', 'prev']).optional().default('next'),
+  role: z.string().trim().min(1).optional(),
+  email: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(1).optional(),
+  createdFrom: z.coerce.date({ invalid_type_error: 'createdFrom must be a date' }).optional(),
+  createdTo: z.coerce.date({ invalid_type_error: 'createdTo must be a date' }).optional(),
+  // "true" lists soft-deleted users instead of active ones
+  deleted: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  status: z.enum(USER_STATUSES).optional(),
+  sort: z.string().optional().default('-createdAt').transform((value, ctx) => {
+    const fields = value.split(',').map((field) => field.trim()).filter(Boolean);
+    const parsed = fields.map((field) => ({
+      field: field.replace(/^-/, '') as UserSortField,
+      direction: field.startsWith('-') ? 'desc' as const : 'asc' as const,
+    }));
+
+    const invalid = parsed.find((item) => !USER_SORT_FIELDS.includes(item.field));
+    if (invalid || parsed.length === 0 || parsed.length > 3) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Sort must be up to 3 of ${USER_SORT_FIELDS.join(', ')}, optionally prefixed with "-"`,
+      });
+      return z.NEVER;
+    }
+
+    return parsed;
+  })
+});
+
+export const changeUserStatusSchema = z.object({
+  status: z.enum(USER_STATUSES, {
+    errorMap: () => ({ message: `Status must be one of ${USER_STATUSES.join(', ')}` })
+  }),
+  reason: z.string().trim().max(500, 'Reason must be at most 500 characters').optional(),
+  // Only for suspensions, the account is reactivated automatically at this time
+  suspendedUntil: z.coerce.date({ invalid_type_error: 'suspendedUntil must be a date' }).optional()
+}).refine((data) => !data.suspendedUntil || data.status === UserStatus.SUSPENDED, {
+  message: 'suspendedUntil can only be set when suspending',
+  path: ['suspendedUntil']
+}).refine((data) => !data.suspendedUntil || data.suspendedUntil > new Date(), {
+  message: 'suspendedUntil must be in the future',
+  path: ['suspendedUntil']
+});
+
+export const createInvitationSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  role: z.string().trim().min(1, 'Role is required').optional().default('USER')
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required')
+});
+
+// Same filters as the user list, the export is always ordered by id
+export const exportUsersQuerySchema = listUsersQuerySchema
+  .pick({ role: true, status: true, email: true, name: true, createdFrom: true, createdTo: true, deleted: true })
+  .extend({
+    format: z.enum(['csv', 'json', 'ndjson']).optional().default('csv')
+  });
+
+// Imported rows without a password when invitations are sent instead
+export const importInvitedUserSchema = createUserSchema.innerType().omit({
+  password: true,
+  confirmPassword: true
+});
+
+export const importUsersQuerySchema = z.object({
+  // Taken from the file name or content type when omitted
+  format: z.enum(['csv', 'json']).optional(),
+  // Validate and report only, nothing is written
+  dryRun: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  // Rows without a password get an email to choose one
+  invite: z.enum(['true', 'false']).optional().transform((value) => value === 'true')
+});
+
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
 export type AvatarInput = z.infer<typeof avatarSchema>;
+export type ListUsersQuery = z.input<typeof listUsersQuerySchema>;
+export type ListUsersOptions = z.output<typeof listUsersQuerySchema>;
+export type ChangeUserStatusInput = z.infer<typeof changeUserStatusSchema>;
+export type ImportUsersQuery = z.input<typeof importUsersQuerySchema>;
+export type ImportUsersOptions = z.output<typeof importUsersQuerySchema>;
+export type ExportUsersQuery = z.input<typeof exportUsersQuerySchema>;
+export type ExportUsersOptions = z.output<typeof exportUsersQuerySchema>;
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;